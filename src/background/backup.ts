@@ -0,0 +1,158 @@
+import { WalletManager } from './wallet';
+import { PositionLedger } from './ledger';
+import { TradeHistory } from './history';
+import { encrypt, decrypt } from '../shared/crypto';
+import { getConfig, saveConfig, getActiveWalletAddress } from '../shared/storage';
+import { BackupPayload, BackupWallet, Config, DEFAULT_CONFIG, RestoreMode } from '../shared/types';
+
+// 备份文件格式标识
+const BACKUP_FORMAT = 'sol-sniper-backup';
+const BACKUP_VERSION = 1;
+const MIN_BACKUP_PASSWORD_LENGTH = 8;
+
+// 备份文件（外层明文，data 为加密后的 BackupPayload）
+interface BackupFile {
+  format: string;
+  version: number;
+  createdAt: number;
+  data: string;
+}
+
+// 恢复结果
+export interface RestoreResult {
+  walletsAdded: number;
+  configRestored: boolean;
+  positionsRestored: number;
+  tradesRestored: number;
+}
+
+// 创建加密备份，返回文件名和文件内容
+export async function createBackup(
+  wallet: WalletManager,
+  ledger: PositionLedger,
+  history: TradeHistory,
+  password: string
+): Promise<{ filename: string; content: string }> {
+  if (!password || password.length < MIN_BACKUP_PASSWORD_LENGTH) {
+    throw new Error(`备份密码至少需要${MIN_BACKUP_PASSWORD_LENGTH}个字符`);
+  }
+
+  const createdAt = Date.now();
+  const payload: BackupPayload = {
+    version: BACKUP_VERSION,
+    createdAt,
+    config: await getConfig(),
+    wallets: wallet.hasWallets ? wallet.exportSecrets() : [],
+    activeWallet: await getActiveWalletAddress(),
+    positions: await ledger.list(),
+    trades: await history.query(),
+  };
+
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt,
+    data: await encrypt(JSON.stringify(payload), password),
+  };
+
+  const date = new Date(createdAt).toISOString().slice(0, 10);
+  console.log('[Backup] ✓ 备份已创建，钱包数:', payload.wallets.length);
+  return {
+    filename: `sol-sniper-backup-${date}.json`,
+    content: JSON.stringify(file, null, 2),
+  };
+}
+
+// 解密并校验备份内容
+async function readBackup(content: string, password: string): Promise<BackupPayload> {
+  let file: BackupFile;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new Error('备份文件格式无效');
+  }
+  if (file?.format !== BACKUP_FORMAT || typeof file.data !== 'string') {
+    throw new Error('不是有效的备份文件');
+  }
+  if (file.version > BACKUP_VERSION) {
+    throw new Error(`备份文件版本过新 (v${file.version})，请升级插件`);
+  }
+
+  let payload: BackupPayload;
+  try {
+    payload = JSON.parse(await decrypt(file.data, password));
+  } catch {
+    throw new Error('备份密码错误或文件已损坏');
+  }
+
+  if (!payload || typeof payload.config !== 'object' || !Array.isArray(payload.wallets)) {
+    throw new Error('备份内容不完整');
+  }
+  payload.wallets.forEach((w: BackupWallet) => {
+    if (typeof w?.address !== 'string' || typeof w?.secretKey !== 'string') {
+      throw new Error('备份中的钱包数据无效');
+    }
+  });
+  if (payload.positions !== undefined && !Array.isArray(payload.positions)) {
+    throw new Error('备份中的持仓数据无效');
+  }
+  if (payload.trades !== undefined && !Array.isArray(payload.trades)) {
+    throw new Error('备份中的交易记录无效');
+  }
+  return payload;
+}
+
+// 合并配置：保留当前设置，只补充当前为空的 API Key
+function mergeConfig(current: Config, restored: Config): Config {
+  return {
+    ...current,
+    heliusApiKey: current.heliusApiKey || restored.heliusApiKey || '',
+    jupiterApiKey: current.jupiterApiKey || restored.jupiterApiKey || '',
+  };
+}
+
+// 从备份恢复
+// merge: 添加备份中不存在的钱包、持仓和交易记录，保留当前设置（仅补充空的 API Key）
+// replace: 删除现有钱包、持仓和交易记录，使用备份中的设置
+// walletPassword 用于加密恢复的钱包（合并模式下需与现有钱包密码一致）
+export async function restoreBackup(
+  wallet: WalletManager,
+  ledger: PositionLedger,
+  history: TradeHistory,
+  content: string,
+  backupPassword: string,
+  walletPassword: string,
+  mode: RestoreMode
+): Promise<RestoreResult> {
+  if (mode !== 'merge' && mode !== 'replace') {
+    throw new Error('无效的恢复模式');
+  }
+
+  const payload = await readBackup(content, backupPassword);
+  const restoredConfig: Config = { ...DEFAULT_CONFIG, ...payload.config };
+  const replace = mode === 'replace';
+
+  let walletsAdded = 0;
+  if (payload.wallets.length > 0 || replace) {
+    walletsAdded = await wallet.restoreWallets(payload.wallets, walletPassword, replace);
+    if (replace && payload.activeWallet && payload.wallets.some((w) => w.address === payload.activeWallet)) {
+      await wallet.setActive(payload.activeWallet);
+    }
+  }
+
+  const current = await getConfig();
+  await saveConfig(replace ? restoredConfig : mergeConfig(current, restoredConfig));
+
+  // 旧版备份没有持仓账本和交易记录，替换模式下也保留现有数据
+  let positionsRestored = 0;
+  if (payload.positions) {
+    positionsRestored = await ledger.restore(payload.positions, replace);
+  }
+  let tradesRestored = 0;
+  if (payload.trades) {
+    tradesRestored = await history.restore(payload.trades, replace);
+  }
+
+  console.log('[Backup] ✓ 备份已恢复，模式:', mode, '新增钱包:', walletsAdded, '恢复持仓:', positionsRestored, '恢复交易记录:', tradesRestored);
+  return { walletsAdded, configRestored: true, positionsRestored, tradesRestored };
+}
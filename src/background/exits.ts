@@ -0,0 +1,256 @@
+import { formatNumber } from '../shared/orders';
+import { getExitPlans, saveExitPlans } from '../shared/storage';
+import {
+  ExitFill,
+  ExitPlan,
+  ExitRules,
+  ExitTrigger,
+  JupiterQuote,
+  LAMPORTS_PER_SOL,
+  SellOrder,
+} from '../shared/types';
+import { StoredList, TaskWatcher, WatchTask } from './watcher';
+
+// 止盈止损：买入成功后为本次买入的数量挂载规则，每次定时检查时按实时卖出报价判断
+
+const MAX_FILLS_PER_PLAN = 50; // 每个计划保留的成交记录数
+const MAX_FINISHED_PLANS = 50; // 保留的已结束计划数
+
+// 止盈止损的余额、报价查询和卖出
+export interface ExitExecutor {
+  hasWallet(address: string): boolean;
+  getRawTokenBalance(owner: string, ca: string): Promise<number>;
+  quoteSell(ca: string, rawAmount: number, decimals: number): Promise<JupiterQuote>;
+  sell(ca: string, order: SellOrder, owner: string): Promise<string>;
+}
+
+// 新建计划所需的买入信息
+export interface ExitEntry {
+  owner: string;
+  ca: string;
+  decimals: number;
+  entryPrice: number;
+  rawAmount: number;
+}
+
+function formatPct(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+// 规范化规则：过滤无效档位并按涨幅排序
+export function normalizeExitRules(rules: ExitRules): ExitRules {
+  const takeProfits = (rules.takeProfits || [])
+    .filter((level) => level.gainPct > 0 && level.sellPct > 0)
+    .map((level) => ({ gainPct: level.gainPct, sellPct: Math.min(100, level.sellPct) }))
+    .sort((a, b) => a.gainPct - b.gainPct);
+  return {
+    takeProfits,
+    stopLossPct: Math.min(100, Math.max(0, rules.stopLossPct || 0)),
+    trailingStopPct: Math.min(100, Math.max(0, rules.trailingStopPct || 0)),
+  };
+}
+
+// 是否有任何生效的规则
+export function hasExitRules(rules: ExitRules): boolean {
+  return rules.takeProfits.length > 0 || rules.stopLossPct > 0 || rules.trailingStopPct > 0;
+}
+
+export class ExitManager implements WatchTask {
+  readonly label = '止盈止损检查';
+  private store: StoredList<ExitPlan>;
+  private executor: ExitExecutor;
+  private watcher: TaskWatcher;
+
+  constructor(executor: ExitExecutor, watcher: TaskWatcher) {
+    this.executor = executor;
+    this.watcher = watcher;
+    this.store = new StoredList({
+      read: getExitPlans,
+      write: saveExitPlans,
+      isOpen: (plan) => plan.status === 'active',
+      finishedAt: (plan) => plan.updatedAt,
+      maxFinished: MAX_FINISHED_PLANS,
+    });
+    watcher.add(this);
+  }
+
+  // 计划列表（最新的在前），可按 Token 过滤
+  async list(ca?: string): Promise<ExitPlan[]> {
+    const plans = await this.store.load();
+    return plans
+      .filter((plan) => !ca || plan.ca === ca)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  // 为买入挂载止盈止损，规则为空时不创建
+  async attach(entry: ExitEntry, rules: ExitRules): Promise<ExitPlan | null> {
+    const normalized = normalizeExitRules(rules);
+    if (!hasExitRules(normalized)) {
+      console.log('[Exits] 未设置止盈止损规则，跳过');
+      return null;
+    }
+    if (!(entry.entryPrice > 0) || !(entry.rawAmount > 0)) {
+      throw new Error('买入数量无效，无法挂载止盈止损');
+    }
+
+    const plans = await this.store.load();
+    const now = Date.now();
+    const plan: ExitPlan = {
+      id: crypto.randomUUID(),
+      owner: entry.owner,
+      ca: entry.ca,
+      decimals: entry.decimals,
+      entryPrice: entry.entryPrice,
+      rawAmount: entry.rawAmount,
+      rawRemaining: entry.rawAmount,
+      peakPrice: entry.entryPrice,
+      rules: normalized,
+      filledLevels: [],
+      status: 'active',
+      createdAt: now,
+      updatedAt: now,
+      fills: [],
+    };
+    plans.push(plan);
+    await this.store.persist();
+    console.log('[Exits] 挂载止盈止损:', plan.id, plan.ca, '买入价:', formatNumber(plan.entryPrice), 'SOL');
+
+    await this.watcher.schedule();
+    return plan;
+  }
+
+  // 停止监控
+  async cancel(id: string): Promise<ExitPlan> {
+    const plans = await this.store.load();
+    const plan = plans.find((p) => p.id === id);
+    if (!plan) {
+      throw new Error('止盈止损计划不存在');
+    }
+    if (plan.status !== 'active') {
+      throw new Error('止盈止损计划已结束');
+    }
+    this.close(plan, 'cancelled', '手动取消');
+    await this.store.persist();
+
+    await this.watcher.schedule();
+    return plan;
+  }
+
+  // 有生效的计划时每次闹钟都检查
+  async nextRunAt(): Promise<number | null> {
+    return (await this.store.load()).some((p) => p.status === 'active') ? 0 : null;
+  }
+
+  // 检查所有生效的计划
+  async evaluate() {
+    const active = (await this.store.load()).filter((p) => p.status === 'active');
+    for (const plan of active) {
+      try {
+        await this.evaluatePlan(plan);
+      } catch (error: any) {
+        console.warn('[Exits] 检查失败:', plan.id, error.message || error);
+      }
+      plan.updatedAt = Date.now();
+      await this.store.persist();
+    }
+  }
+
+  // 按实时卖出报价检查单个计划
+  private async evaluatePlan(plan: ExitPlan) {
+    if (!this.executor.hasWallet(plan.owner)) {
+      this.close(plan, 'closed', '钱包已删除');
+      return;
+    }
+
+    // 只管理本次买入的数量（不超过当前余额）
+    const rawBalance = await this.executor.getRawTokenBalance(plan.owner, plan.ca);
+    const rawHeld = Math.min(plan.rawRemaining, rawBalance);
+    if (rawHeld <= 0) {
+      this.close(plan, 'closed', '持仓已清空');
+      return;
+    }
+
+    const tokenUnit = Math.pow(10, plan.decimals);
+    const quote = await this.executor.quoteSell(plan.ca, rawHeld, plan.decimals);
+    const price = (Number(quote.outAmount) / LAMPORTS_PER_SOL) / (rawHeld / tokenUnit);
+    if (!(price > 0)) {
+      throw new Error('无法获取有效的卖出报价');
+    }
+
+    plan.lastPrice = price;
+    plan.peakPrice = Math.max(plan.peakPrice, price);
+    const { stopLossPct, trailingStopPct, takeProfits } = plan.rules;
+    const changePct = (price / plan.entryPrice - 1) * 100;
+
+    // 止损和移动止损：卖出剩余全部
+    if (stopLossPct > 0 && price <= plan.entryPrice * (1 - stopLossPct / 100)) {
+      const reason = `价格 ${formatNumber(price)} SOL 较买入价下跌 ${formatPct(-changePct)}%（止损 ${stopLossPct}%）`;
+      await this.fire(plan, 'stopLoss', reason, price, rawHeld);
+      return;
+    }
+    if (trailingStopPct > 0 && price <= plan.peakPrice * (1 - trailingStopPct / 100)) {
+      const drawdown = (1 - price / plan.peakPrice) * 100;
+      const reason = `价格 ${formatNumber(price)} SOL 较最高价 ${formatNumber(plan.peakPrice)} SOL 回撤 ${formatPct(drawdown)}%（移动止损 ${trailingStopPct}%）`;
+      await this.fire(plan, 'trailingStop', reason, price, rawHeld);
+      return;
+    }
+
+    // 止盈：同时达到的多个档位合并卖出
+    const levels = takeProfits
+      .map((level, index) => ({ ...level, index }))
+      .filter((level) => !plan.filledLevels.includes(level.index) && changePct >= level.gainPct);
+    if (levels.length > 0) {
+      const sellPct = Math.min(100, levels.reduce((sum, level) => sum + level.sellPct, 0));
+      const rawSell = Math.min(rawHeld, Math.floor((plan.rawAmount * sellPct) / 100));
+      const reason = `涨幅 ${formatPct(changePct)}% 达到止盈 ${levels.map((l) => `+${l.gainPct}%`).join('、')}，卖出买入数量的 ${sellPct}%`;
+      await this.fire(plan, 'takeProfit', reason, price, rawSell, levels.map((l) => l.index));
+    }
+  }
+
+  // 执行卖出并记录
+  private async fire(
+    plan: ExitPlan,
+    trigger: ExitTrigger,
+    reason: string,
+    price: number,
+    rawAmount: number,
+    levels: number[] = []
+  ) {
+    console.log('[Exits] 触发:', plan.id, reason);
+    const fill: ExitFill = { trigger, reason, price, rawAmount, timestamp: Date.now() };
+
+    try {
+      if (rawAmount <= 0) {
+        throw new Error('卖出数量太小，无法交易');
+      }
+      const order: SellOrder = { mode: 'tokens', value: rawAmount / Math.pow(10, plan.decimals) };
+      fill.signature = await this.executor.sell(plan.ca, order, plan.owner);
+      plan.rawRemaining = Math.max(0, plan.rawRemaining - rawAmount);
+      plan.filledLevels.push(...levels);
+      console.log('[Exits] ✓ 卖出成功:', plan.id, fill.signature);
+    } catch (error: any) {
+      // 卖出失败时计划保持生效，下次检查重试
+      fill.error = error.message || String(error);
+      console.error('[Exits] 卖出失败:', plan.id, fill.error);
+    }
+    plan.fills = [...plan.fills, fill].slice(-MAX_FILLS_PER_PLAN);
+
+    if (fill.error) return;
+    if (trigger !== 'takeProfit' || plan.rawRemaining <= 0) {
+      this.close(plan, 'closed', reason);
+    } else if (
+      plan.filledLevels.length >= plan.rules.takeProfits.length &&
+      plan.rules.stopLossPct === 0 &&
+      plan.rules.trailingStopPct === 0
+    ) {
+      this.close(plan, 'closed', '止盈全部完成');
+    }
+  }
+
+  private close(plan: ExitPlan, status: ExitPlan['status'], reason: string) {
+    plan.status = status;
+    plan.closeReason = reason;
+    plan.updatedAt = Date.now();
+    console.log('[Exits] 计划结束:', plan.id, reason);
+  }
+}
@@ -1,5 +1,23 @@
 import { LAMPORTS_PER_SOL } from '../shared/types';
 
+// getSignaturesForAddress 返回的签名信息
+export interface SignatureInfo {
+  signature: string;
+  slot: number;
+  err: any;
+  blockTime: number | null;
+}
+
+// 交易确认结果（failed：交易已上链但执行失败，例如滑点，不会再成交；超时等情况不能确定是否成交）
+export interface ConfirmOutcome {
+  confirmed: boolean;
+  failed?: boolean;
+  error?: string;
+}
+
+// 交易已上链但执行失败（可以确定没有成交）
+export class ChainExecutionError extends Error {}
+
 export class HeliusClient {
   private apiKey: string;
   private rpcUrl: string;
@@ -42,6 +60,60 @@ export class HeliusClient {
     }
   }
 
+  // 批量获取SOL余额（getMultipleAccounts 一次请求，最多100个地址）
+  async getBalances(addresses: string[]): Promise<Record<string, number>> {
+    const balances: Record<string, number> = {};
+    if (addresses.length === 0) return balances;
+
+    const startTime = performance.now();
+    const response = await fetch(this.rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'getMultipleAccounts',
+        params: [addresses, { encoding: 'base64', dataSlice: { offset: 0, length: 0 } }],
+      }),
+    });
+
+    const data = await response.json();
+    if (data.error) throw new Error(data.error.message);
+
+    addresses.forEach((address, i) => {
+      const account = data.result.value[i];
+      balances[address] = account ? account.lamports / LAMPORTS_PER_SOL : 0;
+    });
+
+    const totalTime = performance.now() - startTime;
+    console.log('[Helius] ✓ 批量余额获取成功，耗时:', totalTime.toFixed(2), 'ms, 钱包数:', addresses.length);
+    return balances;
+  }
+
+  // 批量获取账户原始数据（不存在的账户返回 null）
+  async getAccountsData(addresses: string[]): Promise<(Uint8Array | null)[]> {
+    const startTime = performance.now();
+    const response = await fetch(this.rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'getMultipleAccounts',
+        params: [addresses, { encoding: 'base64' }],
+      }),
+    });
+
+    const data = await response.json();
+    if (data.error) throw new Error(data.error.message);
+
+    const totalTime = performance.now() - startTime;
+    console.log('[Helius] ✓ 账户数据获取成功，耗时:', totalTime.toFixed(2), 'ms, 账户数:', addresses.length);
+    return data.result.value.map((account: any) =>
+      account ? Uint8Array.from(atob(account.data[0]), (c) => c.charCodeAt(0)) : null
+    );
+  }
+
   // 获取Token余额（UI 数量）
   async getTokenBalance(address: string, mint: string): Promise<number> {
     const response = await fetch(this.rpcUrl, {
@@ -68,6 +140,26 @@ export class HeliusClient {
     return accounts[0].account.data.parsed.info.tokenAmount.uiAmount || 0;
   }
 
+  // 获取Token总供应量（UI 数量）
+  async getTokenSupply(mint: string): Promise<number> {
+    const response = await fetch(this.rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'getTokenSupply',
+        params: [mint],
+      }),
+    });
+
+    const data = await response.json();
+    if (data.error) throw new Error(data.error.message);
+
+    const { amount, decimals } = data.result.value;
+    return Number(amount) / Math.pow(10, decimals);
+  }
+
   // 获取Token原始余额（最小单位，用于精确计算）
   async getRawTokenBalance(address: string, mint: string): Promise<number> {
     const startTime = performance.now();
@@ -137,6 +229,45 @@ export class HeliusClient {
     return sorted[Math.floor(sorted.length * 0.75)] || 100000;
   }
 
+  // 获取地址的交易签名（从新到旧，before/until 用于分页和增量查询，每页最多1000条）
+  async getSignaturesForAddress(
+    address: string,
+    options: { before?: string; until?: string; limit?: number } = {}
+  ): Promise<SignatureInfo[]> {
+    const response = await fetch(this.rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'getSignaturesForAddress',
+        params: [address, { limit: 1000, ...options, commitment: 'confirmed' }],
+      }),
+    });
+
+    const data = await response.json();
+    if (data.error) throw new Error(data.error.message);
+    return data.result;
+  }
+
+  // 获取已确认的交易（jsonParsed 格式，包含交易前后的 SOL 和 Token 余额），不存在时返回 null
+  async getTransaction(signature: string): Promise<any | null> {
+    const response = await fetch(this.rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'getTransaction',
+        params: [signature, { encoding: 'jsonParsed', commitment: 'confirmed', maxSupportedTransactionVersion: 0 }],
+      }),
+    });
+
+    const data = await response.json();
+    if (data.error) throw new Error(data.error.message);
+    return data.result;
+  }
+
   // 获取最新区块哈希
   async getLatestBlockhash(): Promise<{ blockhash: string; lastValidBlockHeight: number }> {
     const response = await fetch(this.rpcUrl, {
@@ -155,6 +286,24 @@ export class HeliusClient {
     return data.result.value;
   }
 
+  // 获取当前区块高度（用于判断预加载交易的区块哈希是否过期）
+  async getBlockHeight(): Promise<number> {
+    const response = await fetch(this.rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'getBlockHeight',
+        params: [{ commitment: 'confirmed' }],
+      }),
+    });
+
+    const data = await response.json();
+    if (data.error) throw new Error(data.error.message);
+    return data.result;
+  }
+
   // 发送交易 (skipPreflight 加速)
   // signedTx 应该是 base58 编码的字符串
   async sendTransaction(signedTx: string): Promise<string> {
@@ -200,10 +349,12 @@ export class HeliusClient {
   }
 
   // 确认交易 - 返回详细状态
+  // onProcessed 在交易首次上链（processed，尚未确认）时调用
   async confirmTransaction(
     signature: string,
-    timeout = 30000
-  ): Promise<{ confirmed: boolean; error?: string }> {
+    timeout = 30000,
+    onProcessed?: () => void
+  ): Promise<ConfirmOutcome> {
     const start = Date.now();
     let lastStatus: any = null;
     let checkCount = 0;
@@ -226,6 +377,7 @@ export class HeliusClient {
 
         const data = await response.json();
         const status = data.result?.value?.[0];
+        const previousStatus = lastStatus;
         lastStatus = status;
 
         if (status) {
@@ -235,7 +387,7 @@ export class HeliusClient {
               ? JSON.stringify(status.err)
               : String(status.err);
             console.error('[Helius] ✗ 交易链上执行失败:', errMsg);
-            return { confirmed: false, error: `链上执行失败: ${errMsg}` };
+            return { confirmed: false, failed: true, error: `链上执行失败: ${errMsg}` };
           }
 
           if (status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized') {
@@ -243,6 +395,10 @@ export class HeliusClient {
             console.log('[Helius] ✓ 交易确认成功，耗时:', elapsed, 'ms, 状态:', status.confirmationStatus);
             return { confirmed: true };
           }
+
+          if (!previousStatus) {
+            onProcessed?.();
+          }
         }
       } catch (e: any) {
         console.warn('[Helius] 确认查询失败 (尝试 ' + checkCount + '):', e.message);
@@ -262,22 +418,25 @@ export class HeliusClient {
   }
 
   // 发送并确认交易
+  // onProgress 在发送成功（sent）和交易上链等待确认（processed）时调用
   async sendAndConfirmTransaction(
     signedTx: string,
-    confirmTimeout = 25000
-  ): Promise<{ signature: string; confirmed: boolean; error?: string }> {
+    confirmTimeout = 25000,
+    onProgress?: (event: 'sent' | 'processed', signature: string) => void
+  ): Promise<{ signature: string } & ConfirmOutcome> {
     try {
       // 发送交易
       const signature = await this.sendTransaction(signedTx);
+      onProgress?.('sent', signature);
 
       // 等待确认
-      const result = await this.confirmTransaction(signature, confirmTimeout);
+      const result = await this.confirmTransaction(signature, confirmTimeout, () => onProgress?.('processed', signature));
 
       if (result.confirmed) {
         return { signature, confirmed: true };
       }
 
-      return { signature, confirmed: false, error: result.error };
+      return { signature, ...result };
     } catch (e: any) {
       console.error('[Helius] sendAndConfirmTransaction 失败:', e.message);
       return { signature: '', confirmed: false, error: e.message };
@@ -0,0 +1,128 @@
+import { getTrades, saveTrades } from '../shared/storage';
+import { tradeSolAmount, tradeTokenAmount } from '../shared/orders';
+import { TradeExportFormat, TradeHistoryFilter, TradeRecord } from '../shared/types';
+
+// 交易记录：每次执行买入/卖出后追加，支持筛选和导出 CSV/JSON（记账、报税用）
+
+const MAX_TRADES = 3000; // chrome.storage.local 有容量限制，只保留最近的记录
+
+// CSV 列（表头和取值）
+const CSV_COLUMNS: [string, (trade: TradeRecord) => string | number | undefined][] = [
+  ['时间', (t) => new Date(t.timestamp).toISOString()],
+  ['钱包', (t) => t.owner],
+  ['CA', (t) => t.ca],
+  ['方向', (t) => (t.side === 'buy' ? '买入' : '卖出')],
+  ['状态', (t) => (t.status === 'success' ? '成功' : '失败')],
+  ['SOL数量', (t) => tradeSolAmount(t)],
+  ['Token数量', (t) => tradeTokenAmount(t)],
+  ['卖出方式', (t) => (t.sell ? `${t.sell.mode}:${t.sell.value}` : '')],
+  ['价格影响(%)', (t) => t.priceImpactPct],
+  ['成交价偏差(%)', (t) => t.priceDiffPct?.toFixed(2)],
+  ['滑点(bps)', (t) => t.slippageBps],
+  ['优先费(SOL)', (t) => t.priorityFee],
+  ['手续费(SOL)', (t) => t.fee],
+  ['使用缓存', (t) => (t.cached ? '是' : '否')],
+  ['签名', (t) => t.signature],
+  ['错误', (t) => t.error],
+  ['总耗时(ms)', (t) => t.timings['总耗时']?.toFixed(0)],
+  ['步骤耗时', (t) => JSON.stringify(t.timings)],
+  ['来源', (t) => (t.imported ? '链上导入' : '插件')],
+];
+
+function csvCell(value: string | number | undefined): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function matches(trade: TradeRecord, filter: TradeHistoryFilter): boolean {
+  return (!filter.ca || trade.ca === filter.ca) &&
+    (!filter.status || trade.status === filter.status) &&
+    (!filter.from || trade.timestamp >= filter.from) &&
+    (!filter.to || trade.timestamp <= filter.to);
+}
+
+export class TradeHistory {
+  // 加载中的 Promise 也缓存，避免并发交易同时加载导致记录丢失
+  private loading: Promise<TradeRecord[]> | null = null;
+
+  private load(): Promise<TradeRecord[]> {
+    if (!this.loading) {
+      this.loading = getTrades();
+    }
+    return this.loading;
+  }
+
+  // 追加一条记录
+  async record(entry: Omit<TradeRecord, 'id'>): Promise<TradeRecord> {
+    const trades = await this.load();
+    const trade: TradeRecord = { id: crypto.randomUUID(), ...entry };
+    trades.push(trade);
+    await this.persist();
+    return trade;
+  }
+
+  // 是否已有该签名的记录
+  async hasSignature(signature: string): Promise<boolean> {
+    return (await this.load()).some((t) => t.signature === signature);
+  }
+
+  // 按条件筛选（最新的在前）
+  async query(filter: TradeHistoryFilter = {}): Promise<TradeRecord[]> {
+    const trades = (await this.load())
+      .filter((trade) => matches(trade, filter))
+      .sort((a, b) => b.timestamp - a.timestamp);
+    return filter.limit ? trades.slice(0, filter.limit) : trades;
+  }
+
+  // 导出筛选后的记录，返回文件名和文件内容
+  async exportTrades(format: TradeExportFormat, filter: TradeHistoryFilter = {}): Promise<{ filename: string; content: string }> {
+    if (format !== 'csv' && format !== 'json') {
+      throw new Error('不支持的导出格式');
+    }
+    const trades = await this.query({ ...filter, limit: undefined });
+    if (trades.length === 0) {
+      throw new Error('没有符合条件的交易记录');
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    const filename = `sol-sniper-trades-${date}.${format}`;
+    if (format === 'json') {
+      return { filename, content: JSON.stringify(trades, null, 2) };
+    }
+
+    const lines = [
+      CSV_COLUMNS.map(([header]) => csvCell(header)).join(','),
+      ...trades.map((trade) => CSV_COLUMNS.map(([, value]) => csvCell(value(trade))).join(',')),
+    ];
+    // 带 BOM，Excel 打开时中文不乱码
+    return { filename, content: '\ufeff' + lines.join('\r\n') };
+  }
+
+  // 从备份恢复（replace 时替换全部，否则只添加不存在的记录）
+  async restore(records: TradeRecord[], replace: boolean): Promise<number> {
+    const trades = await this.load();
+    const existing = new Set(trades.map((t) => t.id));
+    if (replace) {
+      trades.length = 0;
+      existing.clear();
+    }
+    let added = 0;
+    for (const record of records) {
+      if (existing.has(record.id)) continue;
+      trades.push(record);
+      existing.add(record.id);
+      added++;
+    }
+    await this.persist();
+    return added;
+  }
+
+  private async persist() {
+    const trades = await this.load();
+    if (trades.length > MAX_TRADES) {
+      trades.sort((a, b) => a.timestamp - b.timestamp);
+      trades.splice(0, trades.length - MAX_TRADES);
+    }
+    await saveTrades(trades);
+  }
+}
@@ -0,0 +1,133 @@
+import { getImportStates, saveImportStates } from '../shared/storage';
+import { ImportResult, ImportState, LAMPORTS_PER_SOL } from '../shared/types';
+import { SignatureInfo } from './helius';
+import { PositionLedger } from './ledger';
+import { TradeHistory } from './history';
+import { parseSwap } from './swaps';
+
+// 链上历史导入：查询钱包的交易签名，解析其中的 SOL <-> Token 兑换，补充到持仓账本和交易记录
+// 从旧到新处理，每处理一笔保存进度，下次从最后处理的签名继续（增量导入）
+// 持仓账本按导入顺序累加：同一 Token 已有插件记录的交易时，导入的更早交易在这些交易之后计入平均成本，
+// 不会按时间重新计算（只有从未记录过的 Token 的平均成本严格按时间顺序）
+
+const PAGE_SIZE = 1000; // getSignaturesForAddress 每页最多1000条
+const MAX_SIGNATURES = 10000; // 首次导入最多查询的签名数（只覆盖最近的交易）
+const MAX_TRANSACTIONS_PER_RUN = 200; // 每次最多解析的交易数，其余下次继续
+const SAVE_EVERY = 20; // 每处理多少笔保存一次进度
+
+// 链上数据来源（由 background 提供 Helius 客户端）
+export interface ImportSource {
+  getSignatures(address: string, options: { before?: string; until?: string; limit?: number }): Promise<SignatureInfo[]>;
+  getTransaction(signature: string): Promise<any | null>;
+}
+
+export class HistoryImporter {
+  private source: ImportSource;
+  private ledger: PositionLedger;
+  private history: TradeHistory;
+  private running = new Set<string>();
+
+  constructor(source: ImportSource, ledger: PositionLedger, history: TradeHistory) {
+    this.source = source;
+    this.ledger = ledger;
+    this.history = history;
+  }
+
+  // 导入钱包的链上兑换记录
+  async importWallet(address: string): Promise<ImportResult> {
+    if (this.running.has(address)) {
+      throw new Error('该钱包正在导入，请稍候');
+    }
+    this.running.add(address);
+    try {
+      return await this.run(address);
+    } finally {
+      this.running.delete(address);
+    }
+  }
+
+  private async run(address: string): Promise<ImportResult> {
+    const states = await getImportStates();
+    const state: ImportState = states[address] || { imported: 0, updatedAt: 0 };
+    const result: ImportResult = { address, scanned: 0, imported: 0, skipped: 0, remaining: 0 };
+    console.log('[Importer] 开始导入:', address, state.lastSignature ? `从 ${state.lastSignature.slice(0, 16)}... 之后` : '首次导入');
+
+    // 查询上次处理之后的签名（从新到旧分页）
+    // 增量导入必须一直查到上次处理的签名，否则从最旧一端处理时会跳过中间未查询到的交易
+    const pending: SignatureInfo[] = [];
+    let before: string | undefined;
+    while (state.lastSignature || pending.length < MAX_SIGNATURES) {
+      const page = await this.source.getSignatures(address, { before, until: state.lastSignature, limit: PAGE_SIZE });
+      pending.push(...page);
+      if (page.length < PAGE_SIZE) break;
+      before = page[page.length - 1].signature;
+    }
+
+    // 从旧到新处理（本次导入的交易之间按时间顺序计入平均成本）
+    pending.reverse();
+    const batch = pending.slice(0, MAX_TRANSACTIONS_PER_RUN);
+    result.remaining = pending.length - batch.length;
+
+    const save = async () => {
+      state.updatedAt = Date.now();
+      states[address] = state;
+      await saveImportStates(states);
+    };
+
+    try {
+      for (const info of batch) {
+        if (!info.err) {
+          if (await this.history.hasSignature(info.signature)) {
+            result.skipped++;
+          } else if (await this.importTransaction(address, info.signature)) {
+            result.imported++;
+            state.imported++;
+          }
+        }
+        state.lastSignature = info.signature;
+        result.scanned++;
+        if (result.scanned % SAVE_EVERY === 0) await save();
+      }
+    } finally {
+      // 中途失败时保存已处理的进度，下次从这里继续
+      await save();
+      result.remaining += batch.length - result.scanned;
+    }
+
+    console.log('[Importer] ✓ 导入完成:', address, result);
+    return result;
+  }
+
+  // 解析单笔交易并记录，返回是否为兑换
+  private async importTransaction(address: string, signature: string): Promise<boolean> {
+    const tx = await this.source.getTransaction(signature);
+    const swap = parseSwap(tx, address, signature);
+    if (!swap) return false;
+
+    const sol = swap.lamports / LAMPORTS_PER_SOL;
+    const trade = { owner: address, ca: swap.ca, decimals: swap.decimals, sol, rawTokens: swap.rawTokens };
+    if (swap.side === 'buy') {
+      await this.ledger.recordBuy(trade);
+    } else {
+      await this.ledger.recordSell(trade);
+    }
+
+    await this.history.record({
+      timestamp: swap.timestamp,
+      owner: address,
+      ca: swap.ca,
+      side: swap.side,
+      status: 'success',
+      amount: swap.side === 'buy' ? sol : undefined,
+      decimals: swap.decimals,
+      inAmount: String(swap.side === 'buy' ? swap.lamports : swap.rawTokens),
+      outAmount: String(swap.side === 'buy' ? swap.rawTokens : swap.lamports),
+      fee: swap.fee / LAMPORTS_PER_SOL,
+      cached: false,
+      signature,
+      timings: {},
+      imported: true,
+    });
+    return true;
+  }
+}
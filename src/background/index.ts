@@ -1,29 +1,97 @@
-import { HeliusClient } from './helius';
+import { ChainExecutionError, ConfirmOutcome, HeliusClient } from './helius';
 import { JupiterClient } from './jupiter';
-import { WalletManager } from './wallet';
+import { WalletManager, AUTO_LOCK_ALARM } from './wallet';
+import { TransactionInspector } from './inspector';
+import { SpendingGuard, LimitError } from './limits';
+import { OrderBook } from './orders';
+import { ExitManager } from './exits';
+import { ScheduleManager } from './schedules';
+import { TaskWatcher, WATCH_ALARM } from './watcher';
+import { PositionLedger } from './ledger';
+import { TradeHistory } from './history';
+import { HistoryImporter } from './importer';
+import { ParsedSwap, parseSwap } from './swaps';
+import { createBackup, restoreBackup } from './backup';
+import { TradeProgress, ProgressReporter } from './progress';
+import { ConfirmationTracker } from './tracker';
+import { TradeJournal, transactionSignature } from './journal';
+import { PreloadCacheStore, PreloadCache, BlockHeightClock, NO_TAB, takePresigned, takeSwap } from './preload';
+import { normalizeMnemonic, assertValidMnemonic, deriveKeypairs, getDerivationPath } from './mnemonic';
 import { getConfig, saveConfig } from '../shared/storage';
-import { Message, MessageResponse, Config, PreloadedTrade, JupiterQuote } from '../shared/types';
+import { describeSellOrder } from '../shared/orders';
+import {
+  Message,
+  MessageResponse,
+  Config,
+  PreloadedTrade,
+  JupiterQuote,
+  CachedSwap,
+  WalletState,
+  BundleBuyRequest,
+  BundleBuyResult,
+  BundleBuyWalletResult,
+  DerivationPathId,
+  DerivedAccount,
+  SpendRecord,
+  TradeQuotePreview,
+  SellMode,
+  SellOrder,
+  CustomTradePresets,
+  NewLimitOrder,
+  NewSchedule,
+  Position,
+  PositionView,
+  JournalEntry,
+  TradeRecord,
+  TradeResult,
+  TokenMarket,
+  LAMPORTS_PER_SOL,
+} from '../shared/types';
 
 // 全局实例
 let helius: HeliusClient | null = null;
 let jupiter: JupiterClient | null = null;
 const wallet = new WalletManager();
-
-// 预加载缓存
-interface PreloadCache {
-  ca: string;
-  buyTrades: Map<number, { quote: JupiterQuote; swapTx: string }>;
-  sellTrades: Map<number, { quote: JupiterQuote; swapTx: string }>; // 卖出交易缓存
-  tokenDecimals: number;
-  tokenBalance: number;
-  timestamp: number;
-}
-
-let preloadCache: PreloadCache | null = null;
-const CACHE_TTL = 10000; // 10秒过期
-const CACHE_FRESH_THRESHOLD = 5000; // 5秒内认为是新鲜的，可以直接使用
-let cacheRefreshTimer: ReturnType<typeof setInterval> | null = null;
-const CACHE_REFRESH_INTERVAL = 8000; // 8秒刷新一次（在过期前刷新）
+const spendingGuard = new SpendingGuard();
+const ledger = new PositionLedger();
+const tradeHistory = new TradeHistory();
+const tradeProgress = new TradeProgress();
+const confirmations = new ConfirmationTracker();
+const journal = new TradeJournal();
+const importer = new HistoryImporter({
+  getSignatures: (address, options) => helius!.getSignaturesForAddress(address, options),
+  getTransaction: (signature) => helius!.getTransaction(signature),
+}, ledger, tradeHistory);
+const watcher = new TaskWatcher(() => !!helius && !!jupiter && !wallet.isLocked);
+const orderBook = new OrderBook({
+  hasWallet: (address) => wallet.hasWallet(address),
+  getMarket: (ca) => getTokenMarket(ca),
+  buy: (ca, amount, owner) => executeBuy(ca, amount, owner).then((result) => result.signature),
+  sell: (ca, order, owner) => executeSell(ca, order, owner).then((result) => result.signature),
+}, watcher);
+const exitManager = new ExitManager({
+  hasWallet: (address) => wallet.hasWallet(address),
+  getRawTokenBalance: (owner, ca) => helius!.getRawTokenBalance(owner, ca),
+  quoteSell: (ca, rawAmount, decimals) => jupiter!.getSellQuote(ca, rawAmount / Math.pow(10, decimals), decimals),
+  sell: (ca, order, owner) => executeSell(ca, order, owner).then((result) => result.signature),
+}, watcher);
+const scheduler = new ScheduleManager({
+  hasWallet: (address) => wallet.hasWallet(address),
+  buy: (ca, amount, owner) => executeBuy(ca, amount, owner).then((result) => result.signature),
+}, watcher);
+
+// 预加载缓存（按标签页和 CA）
+const blockClock = new BlockHeightClock();
+const preloads = new PreloadCacheStore({
+  updateBlockHeight: async () => blockClock.update(await helius!.getBlockHeight()),
+  isExpiring: (cache) => cacheBlocksLeft(cache) < REFRESH_MIN_BLOCKS_LEFT,
+  priceStaleReason: (ca, cache) => priceStaleReason(ca, cache),
+  rebuild: (tabId, ca) => preloadTrades(ca, tabId),
+});
+const SEND_MIN_BLOCKS_LEFT = 10; // 缓存的交易距区块哈希过期至少还有10个区块（约4秒）才使用
+const REFRESH_MIN_BLOCKS_LEFT = 30; // 定时校验时剩余不足30个区块（约12秒）即重新构建
+const MAX_QUOTE_SLOT_AGE = 75; // 报价 slot 落后实时报价超过75个（约30秒）即重新构建
+const MAX_PRICE_DRIFT = 0.01; // 缓存报价与实时报价的价格偏差超过1%即重新构建
 
 // 初始化
 async function init() {
@@ -32,21 +100,34 @@ async function init() {
     if (config.heliusApiKey) {
       helius = new HeliusClient(config.heliusApiKey);
       jupiter = new JupiterClient(config.jupiterApiKey || '', config.slippage, config.priorityFee);
+      wallet.setInspector(new TransactionInspector(helius, config.allowedPrograms, config.priorityFee));
     }
-    
-    // 检查是否有存储的钱包，如果有则自动解锁
+
+    wallet.setAutoLock(config.autoLockMinutes);
+    spendingGuard.updateSettings(config);
+    await watcher.schedule();
+
+    // 后台重启前未完成的交易在后台继续确认（不阻塞初始化）
+    const unresolved = await journal.unresolved();
+    if (unresolved.length > 0) {
+      if (helius && jupiter) {
+        unresolved.forEach((entries) => resumeTrade(entries));
+      } else {
+        console.warn('[SolSniper] 有未完成的交易，但 API Key 未配置，无法确认');
+      }
+    }
+
+    // 检查是否有存储的钱包，如果会话仍有效则恢复解锁状态
     const hasWallet = await wallet.hasStoredWallet();
     if (hasWallet) {
-      const unlocked = await wallet.autoUnlock();
-      if (unlocked) {
-        console.log('[SolSniper] 钱包已自动恢复');
+      const restored = await wallet.restoreSession();
+      if (restored) {
+        console.log('[SolSniper] 钱包解锁状态已恢复');
       } else {
-        console.warn('[SolSniper] 钱包恢复失败，请重新导入');
+        console.log('[SolSniper] 钱包已锁定，等待用户解锁');
       }
     }
-    
-    // 自动锁定功能已禁用
-    wallet.setAutoLock(0);
+
     console.log('[SolSniper] Background initialized');
   } catch (error) {
     console.error('[SolSniper] 初始化失败:', error);
@@ -57,69 +138,24 @@ async function init() {
 async function updateClients(config: Config) {
   if (config.heliusApiKey) {
     helius = new HeliusClient(config.heliusApiKey);
+    wallet.setInspector(new TransactionInspector(helius, config.allowedPrograms, config.priorityFee));
   }
   if (jupiter) {
     jupiter.updateSettings(config.jupiterApiKey || '', config.slippage, config.priorityFee);
   } else if (config.heliusApiKey) {
     jupiter = new JupiterClient(config.jupiterApiKey || '', config.slippage, config.priorityFee);
   }
-  // 自动锁定功能已禁用
-  wallet.setAutoLock(0);
-}
-
-// 设置缓存定时刷新
-function setupCacheRefresh(ca: string) {
-  // 清除之前的定时器
-  if (cacheRefreshTimer) {
-    clearInterval(cacheRefreshTimer);
-    cacheRefreshTimer = null;
-  }
-
-  // 设置新的定时器，在缓存过期前刷新
-  cacheRefreshTimer = setInterval(async () => {
-    // 检查缓存是否还存在且CA匹配
-    if (preloadCache && preloadCache.ca === ca) {
-      const age = Date.now() - preloadCache.timestamp;
-      if (age < CACHE_TTL) {
-        console.log('[SolSniper] 定时刷新缓存，当前缓存年龄:', age, 'ms');
-        try {
-          // 重新预加载（静默刷新，不抛出错误）
-          await preloadTrades(ca);
-        } catch (error: any) {
-          console.warn('[SolSniper] 定时刷新缓存失败:', error.message || error);
-          // 刷新失败不影响现有缓存
-        }
-      } else {
-        console.log('[SolSniper] 缓存已过期，清除定时器');
-        if (cacheRefreshTimer) {
-          clearInterval(cacheRefreshTimer);
-          cacheRefreshTimer = null;
-        }
-      }
-    } else {
-      // 缓存不存在或CA不匹配，清除定时器
-      console.log('[SolSniper] 缓存不存在或CA不匹配，清除定时器');
-      if (cacheRefreshTimer) {
-        clearInterval(cacheRefreshTimer);
-        cacheRefreshTimer = null;
-      }
-    }
-  }, CACHE_REFRESH_INTERVAL);
-
-  console.log('[SolSniper] 已设置缓存定时刷新，间隔:', CACHE_REFRESH_INTERVAL, 'ms');
-}
-
-// 清除缓存刷新定时器
-function clearCacheRefresh() {
-  if (cacheRefreshTimer) {
-    clearInterval(cacheRefreshTimer);
-    cacheRefreshTimer = null;
-    console.log('[SolSniper] 已清除缓存刷新定时器');
-  }
+  wallet.setAutoLock(config.autoLockMinutes);
+  spendingGuard.updateSettings(config);
 }
 
-// 预加载交易
-async function preloadTrades(ca: string): Promise<void> {
+// 预加载交易（tabId 为发起预加载的标签页）
+// known 为已知的 Token 余额和精度（交易刚确认时 RPC 查询的余额可能还未更新）
+async function preloadTrades(
+  ca: string,
+  tabId: number = NO_TAB,
+  known?: { rawBalance: number; decimals: number }
+): Promise<void> {
   const startTime = performance.now();
   try {
     console.log('[SolSniper] ========== 开始预加载交易 ==========');
@@ -138,65 +174,108 @@ async function preloadTrades(ca: string): Promise<void> {
       return;
     }
     const userAddress = wallet.publicKey;
-    console.log('[SolSniper] 买入预设金额:', config.buyPresets);
-    console.log('[SolSniper] 卖出预设百分比:', config.sellPresets);
-
-    // 并行获取基础数据
-    const fetchStart = performance.now();
-    const [decimals, tokenBalance, buyTrades] = await Promise.all([
-      jupiter.getTokenDecimals(ca),
-      helius.getTokenBalance(userAddress, ca).catch((error) => {
-        console.error('[SolSniper] 获取token余额失败:', error);
-        return 0;
-      }),
-      jupiter.preloadBuyTrades(ca, config.buyPresets, userAddress),
-    ]);
-    const fetchTime = performance.now() - fetchStart;
-
-    // 如果token有余额，预加载卖出交易
+    const custom = preloads.custom(tabId, ca);
+    const buyAmounts = withCustomValue(config.buyPresets, custom?.buy);
+    const sellPercents = withCustomValue(
+      config.sellPresets,
+      custom?.sell?.mode === 'percent' ? custom.sell.value : null
+    );
+    console.log('[SolSniper] 买入预设金额:', buyAmounts);
+    console.log('[SolSniper] 卖出预设百分比:', sellPercents);
+
+    // 预加载卖出交易（如果token有余额）
     // 注意：每次预加载都会重新获取最新的余额，确保数量准确
-    let sellTrades = new Map<number, { quote: JupiterQuote; swapTx: string }>();
-    if (tokenBalance > 0) {
-      console.log('[SolSniper] Token有余额，开始预加载卖出交易...');
-      console.log('[SolSniper] 当前Token余额:', tokenBalance, '(将使用最新余额预加载)');
-      const sellStart = performance.now();
-      try {
-        // 重新获取原始余额用于计算卖出数量（确保使用最新余额）
-        // 即使之前已经获取过，这里也要重新获取，因为余额可能已经变化
-        const rawTokenBalance = await helius.getRawTokenBalance(userAddress, ca);
-        console.log('[SolSniper] 最新原始余额:', rawTokenBalance.toString(), '(用于预加载卖出交易)');
-        sellTrades = await jupiter.preloadSellTrades(ca, config.sellPresets, decimals, rawTokenBalance, userAddress);
-        const sellTime = performance.now() - sellStart;
-        console.log('[SolSniper] ✓ 卖出交易预加载完成，耗时:', sellTime.toFixed(2), 'ms, 成功数:', sellTrades.size);
-      } catch (error: any) {
-        console.warn('[SolSniper] 卖出交易预加载失败:', error.message || error);
-        // 卖出预加载失败不影响整体流程
+    const preloadSells = async (decimals: number, tokenBalance: number) => {
+      let sellTrades = new Map<number, CachedSwap>();
+      let tokenSells = new Map<number, CachedSwap>();
+      if (tokenBalance > 0) {
+        console.log('[SolSniper] Token有余额，开始预加载卖出交易...');
+        console.log('[SolSniper] 当前Token余额:', tokenBalance, '(将使用最新余额预加载)');
+        const sellStart = performance.now();
+        try {
+          // 重新获取原始余额用于计算卖出数量（确保使用最新余额）
+          // 即使之前已经获取过，这里也要重新获取，因为余额可能已经变化（已知交易后余额时直接使用）
+          const rawTokenBalance = known ? known.rawBalance : await helius!.getRawTokenBalance(userAddress, ca);
+          console.log('[SolSniper] 最新原始余额:', rawTokenBalance.toString(), '(用于预加载卖出交易)');
+          const tokenSellAmounts = customTokenSellAmounts(custom?.sell, decimals, rawTokenBalance);
+          [sellTrades, tokenSells] = await Promise.all([
+            jupiter!.preloadSellTrades(ca, sellPercents, decimals, rawTokenBalance, userAddress),
+            tokenSellAmounts.length > 0
+              ? jupiter!.preloadSellAmounts(ca, tokenSellAmounts, decimals, userAddress)
+              : Promise.resolve(tokenSells),
+          ]);
+          const sellTime = performance.now() - sellStart;
+          console.log('[SolSniper] ✓ 卖出交易预加载完成，耗时:', sellTime.toFixed(2), 'ms, 成功数:', sellTrades.size + tokenSells.size);
+        } catch (error: any) {
+          console.warn('[SolSniper] 卖出交易预加载失败:', error.message || error);
+          // 卖出预加载失败不影响整体流程
+        }
+      } else {
+        console.log('[SolSniper] Token余额为0，跳过卖出交易预加载');
       }
+      await presignSwaps(userAddress, sellTrades, tokenSells);
+      return { sellTrades, tokenSells };
+    };
+
+    const fetchStart = performance.now();
+    const heightPromise = helius.getBlockHeight().then((height) => blockClock.update(height)).catch((error) => {
+      console.warn('[SolSniper] 获取区块高度失败:', error.message || error);
+    });
+    const buyPromise = jupiter.preloadBuyTrades(ca, buyAmounts, userAddress);
+    let cache: PreloadCache;
+
+    if (known) {
+      // 已知余额（交易刚确认）：卖出交易和买入交易同时开始，卖出交易完成后先写入缓存，不等买入交易
+      const tokenBalance = known.rawBalance / Math.pow(10, known.decimals);
+      const [sells] = await Promise.all([preloadSells(known.decimals, tokenBalance), heightPromise]);
+      cache = {
+        ca,
+        buyTrades: new Map(),
+        ...sells,
+        tokenDecimals: known.decimals,
+        tokenBalance,
+        timestamp: Date.now(),
+        verifiedAt: Date.now(),
+      };
+      preloads.set(tabId, ca, cache);
+      const buyTrades = await buyPromise;
+      await presignSwaps(userAddress, buyTrades);
+      buyTrades.forEach((trade, amount) => cache.buyTrades.set(amount, trade));
     } else {
-      console.log('[SolSniper] Token余额为0，跳过卖出交易预加载');
+      // 并行获取基础数据
+      const [decimals, tokenBalance, buyTrades] = await Promise.all([
+        jupiter.getTokenDecimals(ca),
+        helius.getTokenBalance(userAddress, ca).catch((error) => {
+          console.error('[SolSniper] 获取token余额失败:', error);
+          return 0;
+        }),
+        buyPromise,
+        heightPromise,
+      ]);
+      const sells = await preloadSells(decimals, tokenBalance);
+      await presignSwaps(userAddress, buyTrades);
+      cache = {
+        ca,
+        buyTrades,
+        ...sells,
+        tokenDecimals: decimals,
+        tokenBalance,
+        timestamp: Date.now(),
+        verifiedAt: Date.now(),
+      };
+      preloads.set(tabId, ca, cache);
     }
-
-    preloadCache = {
-      ca,
-      buyTrades,
-      sellTrades,
-      tokenDecimals: decimals,
-      tokenBalance,
-      timestamp: Date.now(),
-    };
+    const fetchTime = performance.now() - fetchStart;
 
     const totalTime = performance.now() - startTime;
     console.log('[SolSniper] ========== 预加载完成 ==========');
-    console.log('[SolSniper] Token精度:', decimals);
-    console.log('[SolSniper] Token余额:', tokenBalance);
-    console.log('[SolSniper] 预加载买入交易数:', buyTrades.size);
-    console.log('[SolSniper] 预加载卖出交易数:', sellTrades.size);
+    console.log('[SolSniper] Token精度:', cache.tokenDecimals);
+    console.log('[SolSniper] Token余额:', cache.tokenBalance);
+    console.log('[SolSniper] 预加载买入交易数:', cache.buyTrades.size);
+    console.log('[SolSniper] 预加载卖出交易数:', cache.sellTrades.size + cache.tokenSells.size);
     console.log('[SolSniper] 数据获取耗时:', fetchTime.toFixed(2), 'ms');
     console.log('[SolSniper] 总耗时:', totalTime.toFixed(2), 'ms');
     console.log('[SolSniper] ====================================');
-
-    // 设置定时刷新缓存
-    setupCacheRefresh(ca);
   } catch (error: any) {
     const totalTime = performance.now() - startTime;
     console.error('[SolSniper] ========== 预加载失败 ==========');
@@ -207,50 +286,867 @@ async function preloadTrades(ca: string): Promise<void> {
   }
 }
 
-// 检查缓存是否有效
-function isCacheValid(ca: string): boolean {
-  return (
-    preloadCache !== null &&
-    preloadCache.ca === ca &&
-    Date.now() - preloadCache.timestamp < CACHE_TTL
-  );
+// 缓存中最早过期的交易剩余的区块数（没有缓存的交易时不需要重新构建，例如没有可用路由）
+function cacheBlocksLeft(cache: PreloadCache): number {
+  const swaps = [...cache.buyTrades.values(), ...cache.sellTrades.values(), ...cache.tokenSells.values()];
+  return Math.min(Infinity, ...swaps.map((swap) => blockClock.blocksLeft(swap.lastValidBlockHeight)));
+}
+
+// 缓存报价过旧或价格偏离实时报价的原因（有效时返回 null）
+// 每个方向只用一笔缓存交易的报价和相同数量的实时报价比较
+async function priceStaleReason(ca: string, cache: PreloadCache): Promise<string | null> {
+  const buy = cache.buyTrades.values().next().value;
+  const sell = cache.sellTrades.values().next().value || cache.tokenSells.values().next().value;
+  const tokenUnit = Math.pow(10, cache.tokenDecimals);
+  const [buyQuote, sellQuote] = await Promise.all([
+    buy ? jupiter!.getBuyQuote(ca, Number(buy.quote.inAmount) / LAMPORTS_PER_SOL) : null,
+    sell ? jupiter!.getSellQuote(ca, Number(sell.quote.inAmount) / tokenUnit, cache.tokenDecimals) : null,
+  ]);
+
+  const checks: [CachedSwap | undefined, JupiterQuote | null][] = [[buy, buyQuote], [sell, sellQuote]];
+  for (const [swap, fresh] of checks) {
+    if (!swap || !fresh) continue;
+    const slotAge = (fresh.contextSlot ?? 0) - (swap.quote.contextSlot ?? 0);
+    if (fresh.contextSlot && swap.quote.contextSlot && slotAge > MAX_QUOTE_SLOT_AGE) {
+      return `报价 slot 落后 ${slotAge}`;
+    }
+    const cachedPrice = Number(swap.quote.outAmount) / Number(swap.quote.inAmount);
+    const freshPrice = Number(fresh.outAmount) / Number(fresh.inAmount);
+    const drift = Math.abs(freshPrice - cachedPrice) / cachedPrice;
+    if (!(drift <= MAX_PRICE_DRIFT)) {
+      return `价格偏差 ${(drift * 100).toFixed(2)}%`;
+    }
+  }
+  return null;
+}
+
+// 缓存的交易发送后能否在区块哈希过期前上链
+function isSwapUsable(swap: CachedSwap): boolean {
+  return blockClock.blocksLeft(swap.lastValidBlockHeight) >= SEND_MIN_BLOCKS_LEFT;
+}
+
+// 预签名缓存的交易，点击时只需发送（钱包锁定时跳过，预签名失败的交易点击时再签名）
+async function presignSwaps(owner: string, ...trades: Map<number, CachedSwap>[]): Promise<void> {
+  if (wallet.isLocked) return;
+  const swaps = trades.flatMap((map) => [...map.values()]).filter((swap) => !swap.signed);
+  const results = await Promise.allSettled(swaps.map(async (swap) => {
+    const signed = await wallet.presignTransaction(swap.swapTx, owner);
+    // 签名期间钱包已锁定或切换
+    if (wallet.isLocked || wallet.publicKey !== owner) {
+      signed.fill(0);
+      return;
+    }
+    swap.signed = signed;
+  }));
+  const failed = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (failed.length > 0) {
+    console.warn('[SolSniper] 预签名失败:', failed.length, '/', swaps.length, failed[0].reason?.message || failed[0].reason);
+  }
+}
+
+// 取出缓存交易的预签名（钱包已锁定时抛出错误）
+function usePresigned(swap: CachedSwap, owner: string): string | null {
+  if (!swap.signed) return null;
+  wallet.assertUnlocked(owner);
+  return takePresigned(swap);
+}
+
+// 预设列表加上自定义金额（不重复）
+function withCustomValue(presets: number[], value?: number | null): number[] {
+  return value && !presets.includes(value) ? [...presets, value] : presets;
+}
+
+// UI 数量转换为原始数量（最小单位）
+function toRawAmount(uiAmount: number, decimals: number): number {
+  return Math.round(uiAmount * Math.pow(10, decimals));
+}
+
+// 自定义按数量卖出对应的原始数量（超过余额的不预加载）
+function customTokenSellAmounts(order: SellOrder | null | undefined, decimals: number, rawTokenBalance: number): number[] {
+  if (order?.mode !== 'tokens') return [];
+  const rawSellAmount = toRawAmount(order.value, decimals);
+  return rawSellAmount > 0 && rawSellAmount <= rawTokenBalance ? [rawSellAmount] : [];
+}
+
+// 校验买入金额
+function assertBuyAmount(amount: number) {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error('买入金额无效');
+  }
+}
+
+// 校验卖出参数
+function assertSellOrder(order: SellOrder) {
+  if (!['percent', 'tokens', 'solValue'].includes(order?.mode)) {
+    throw new Error('不支持的卖出方式');
+  }
+  if (!Number.isFinite(order.value) || order.value <= 0) {
+    throw new Error('卖出数量无效');
+  }
+  if (order.mode === 'percent' && order.value > 100) {
+    throw new Error('卖出百分比不能超过100%');
+  }
+}
+
+// 更新面板自定义金额
+function setCustomPresets(tabId: number, ca: string, custom: CustomTradePresets) {
+  if (custom.buy != null) assertBuyAmount(custom.buy);
+  if (custom.sell) assertSellOrder(custom.sell);
+  preloads.setCustom(tabId, ca, { buy: custom.buy ?? null, sell: custom.sell ?? null });
+}
+
+// 更新面板自定义金额并预加载
+// 缓存有效时只补充自定义金额的交易，否则完整预加载
+async function preloadCustomTrades(ca: string, custom: CustomTradePresets, tabId: number = NO_TAB): Promise<void> {
+  setCustomPresets(tabId, ca, custom);
+
+  if (!helius || !jupiter) {
+    throw new Error('Not ready');
+  }
+  const cache = preloads.get(ca, tabId);
+  if (!cache) {
+    await preloadTrades(ca, tabId);
+    return;
+  }
+
+  const config = await getConfig();
+  if (config.enableCache === false) return;
+
+  const userAddress = wallet.publicKey;
+  const tasks: Promise<void>[] = [];
+
+  if (custom.buy && !cache.buyTrades.has(custom.buy)) {
+    tasks.push(
+      jupiter.preloadBuyTrades(ca, [custom.buy], userAddress).then((trades) => {
+        trades.forEach((trade, amount) => cache.buyTrades.set(amount, trade));
+      })
+    );
+  }
+
+  // 按 SOL 价值卖出依赖实时报价换算数量，不预加载
+  const sell = custom.sell;
+  if (sell && sell.mode !== 'solValue' && cache.tokenBalance > 0) {
+    const alreadyCached = sell.mode === 'percent'
+      ? cache.sellTrades.has(sell.value)
+      : cache.tokenSells.has(toRawAmount(sell.value, cache.tokenDecimals));
+    if (!alreadyCached) {
+      tasks.push(
+        helius.getRawTokenBalance(userAddress, ca).then(async (rawTokenBalance) => {
+          if (sell.mode === 'percent') {
+            const trades = await jupiter!.preloadSellTrades(ca, [sell.value], cache.tokenDecimals, rawTokenBalance, userAddress);
+            trades.forEach((trade, percent) => cache.sellTrades.set(percent, trade));
+          } else {
+            const amounts = customTokenSellAmounts(sell, cache.tokenDecimals, rawTokenBalance);
+            if (amounts.length === 0) return;
+            const trades = await jupiter!.preloadSellAmounts(ca, amounts, cache.tokenDecimals, userAddress);
+            trades.forEach((trade, rawSellAmount) => cache.tokenSells.set(rawSellAmount, trade));
+          }
+        })
+      );
+    }
+  }
+
+  const results = await Promise.allSettled(tasks);
+  results.forEach((result) => {
+    if (result.status === 'rejected') {
+      console.warn('[SolSniper] 自定义金额预加载失败:', result.reason?.message || result.reason);
+    }
+  });
+  await presignSwaps(userAddress, cache.buyTrades, cache.sellTrades, cache.tokenSells);
+}
+
+// 查找预加载的卖出交易（按 SOL 价值卖出没有缓存）
+function getCachedSell(
+  cache: PreloadCache,
+  order: SellOrder,
+  decimals: number,
+  rawTokenBalance: number
+): CachedSwap | undefined {
+  if (order.mode === 'percent') {
+    return cache.sellTrades.get(order.value);
+  }
+  if (order.mode === 'tokens') {
+    const rawSellAmount = toRawAmount(order.value, decimals);
+    return rawSellAmount <= rawTokenBalance ? cache.tokenSells.get(rawSellAmount) : undefined;
+  }
+  return undefined;
+}
+
+// 按 SOL 价值卖出：用参考报价的均价估算数量，再按实时报价修正（价格影响随数量变化）
+const SOL_VALUE_TOLERANCE = 0.01; // 与目标金额误差 1% 以内
+const SOL_VALUE_MAX_REQUOTES = 2;
+
+async function quoteSellForSol(
+  ca: string,
+  solAmount: number,
+  rawTokenBalance: number,
+  decimals: number,
+  tabId: number
+): Promise<{ rawSellAmount: number; quote: JupiterQuote }> {
+  const tokenUnit = Math.pow(10, decimals);
+  const targetLamports = Math.round(solAmount * LAMPORTS_PER_SOL);
+  const estimate = (quote: JupiterQuote) => {
+    const outAmount = Number(quote.outAmount);
+    if (!(outAmount > 0)) {
+      throw new Error('无法获取有效的卖出报价');
+    }
+    return Math.min(rawTokenBalance, Math.ceil((Number(quote.inAmount) * targetLamports) / outAmount));
+  };
+
+  // 参考报价：优先使用预加载缓存（优先发起交易的标签页）中卖出数量最大的报价，否则实时获取全部持仓的报价
+  let reference: JupiterQuote | undefined;
+  for (const { quote } of preloads.get(ca, tabId)?.sellTrades.values() || []) {
+    if (!reference || Number(quote.inAmount) > Number(reference.inAmount)) {
+      reference = quote;
+    }
+  }
+
+  let rawSellAmount = reference ? estimate(reference) : rawTokenBalance;
+  let quote = await jupiter!.getSellQuote(ca, rawSellAmount / tokenUnit, decimals);
+
+  for (let i = 0; i < SOL_VALUE_MAX_REQUOTES; i++) {
+    const outAmount = Number(quote.outAmount);
+    if (Math.abs(outAmount - targetLamports) <= targetLamports * SOL_VALUE_TOLERANCE) break;
+    // 全部卖出仍不足目标金额
+    if (outAmount < targetLamports && rawSellAmount >= rawTokenBalance) break;
+    const next = estimate(quote);
+    if (next === rawSellAmount) break;
+    rawSellAmount = next;
+    quote = await jupiter!.getSellQuote(ca, rawSellAmount / tokenUnit, decimals);
+  }
+
+  const outAmount = Number(quote.outAmount);
+  if (rawSellAmount >= rawTokenBalance && outAmount < targetLamports * (1 - SOL_VALUE_TOLERANCE)) {
+    throw new Error(`持仓价值约 ${Number((outAmount / LAMPORTS_PER_SOL).toFixed(4))} SOL，不足 ${solAmount} SOL`);
+  }
+
+  console.log('[SolSniper] 按SOL价值卖出:', {
+    '目标SOL': solAmount,
+    '原始卖出数量': rawSellAmount.toString(),
+    '预计获得SOL': outAmount / LAMPORTS_PER_SOL,
+  });
+  return { rawSellAmount, quote };
+}
+
+// 按卖出方式计算原始卖出数量并获取报价
+// 使用原始余额（最小单位）计算，避免精度丢失；tabId 为发起交易的标签页（按 SOL 价值卖出时参考其预加载报价）
+async function quoteSellOrder(
+  ca: string,
+  order: SellOrder,
+  rawTokenBalance: number,
+  decimals: number,
+  tabId: number = NO_TAB
+): Promise<{ rawSellAmount: number; quote: JupiterQuote }> {
+  if (rawTokenBalance <= 0) {
+    throw new Error('No token balance');
+  }
+  if (order.mode === 'solValue') {
+    return quoteSellForSol(ca, order.value, rawTokenBalance, decimals, tabId);
+  }
+
+  const tokenUnit = Math.pow(10, decimals);
+  const rawSellAmount = order.mode === 'percent'
+    ? Math.floor((rawTokenBalance * order.value) / 100)
+    : toRawAmount(order.value, decimals);
+
+  if (rawSellAmount <= 0) {
+    throw new Error('卖出数量太小，无法交易');
+  }
+  if (rawSellAmount > rawTokenBalance) {
+    throw new Error(`Token余额不足，当前持有 ${rawTokenBalance / tokenUnit}`);
+  }
+
+  console.log('[SolSniper] 卖出计算详情:', {
+    '原始余额': rawTokenBalance.toString(),
+    '卖出方式': order.mode,
+    '卖出参数': order.value,
+    '原始卖出数量': rawSellAmount.toString(),
+    'UI卖出数量': rawSellAmount / tokenUnit,
+    '精度': decimals,
+  });
+
+  const quote = await jupiter!.getSellQuote(ca, rawSellAmount / tokenUnit, decimals);
+  return { rawSellAmount, quote };
+}
+
+// 查询行情：用小额买入报价计算价格，乘以总供应量得到市值
+const PRICE_PROBE_SOL = 0.01;
+
+async function getTokenMarket(ca: string): Promise<TokenMarket> {
+  if (!helius || !jupiter) {
+    throw new Error('Not ready');
+  }
+
+  const [quote, decimals, supply] = await Promise.all([
+    jupiter.getBuyQuote(ca, PRICE_PROBE_SOL),
+    jupiter.getTokenDecimals(ca),
+    helius.getTokenSupply(ca),
+  ]);
+  const tokens = Number(quote.outAmount) / Math.pow(10, decimals);
+  if (!(tokens > 0)) {
+    throw new Error('无法获取价格');
+  }
+
+  const price = PRICE_PROBE_SOL / tokens;
+  return { price, marketCap: price * supply, supply, timestamp: Date.now() };
+}
+
+// 新建挂单（使用当前钱包）
+async function createOrder(input: NewLimitOrder) {
+  if (input.side === 'buy') {
+    assertBuyAmount(input.amount!);
+  } else if (input.sell) {
+    assertSellOrder(input.sell);
+  } else {
+    throw new Error('请设置卖出数量');
+  }
+  return orderBook.create(input, wallet.publicKey);
+}
+
+// 新建分批买入或定投（使用当前钱包），第一次买入立即执行
+async function createSchedule(input: NewSchedule) {
+  const schedule = await scheduler.create(input, wallet.publicKey);
+  watcher.run().catch((error) => {
+    console.error('[SolSniper] 定时任务执行失败:', error);
+  });
+  return schedule;
+}
+
+// 获取交易确认用的报价（优先使用预加载缓存）
+async function getTradeQuote(
+  ca: string,
+  side: 'buy' | 'sell',
+  value: number,
+  mode: SellMode = 'percent',
+  tabId: number = NO_TAB
+): Promise<TradeQuotePreview> {
+  if (!helius || !jupiter) {
+    throw new Error('Not ready');
+  }
+
+  const cache = preloads.get(ca, tabId);
+  const decimals = cache ? cache.tokenDecimals : await jupiter.getTokenDecimals(ca);
+  let quote: JupiterQuote | undefined;
+
+  if (side === 'buy') {
+    quote = cache?.buyTrades.get(value)?.quote;
+  } else if (cache) {
+    quote = getCachedSell(cache, { mode, value }, decimals, Infinity)?.quote;
+  }
+  const cached = !!quote;
+
+  if (!quote) {
+    if (side === 'buy') {
+      quote = await jupiter.getBuyQuote(ca, value);
+    } else {
+      const rawTokenBalance = await helius.getRawTokenBalance(wallet.publicKey, ca);
+      quote = (await quoteSellOrder(ca, { mode, value }, rawTokenBalance, decimals, tabId)).quote;
+    }
+  }
+
+  const tokenUnit = Math.pow(10, decimals);
+  return {
+    side,
+    inAmount: Number(quote.inAmount) / (side === 'buy' ? LAMPORTS_PER_SOL : tokenUnit),
+    outAmount: Number(quote.outAmount) / (side === 'buy' ? tokenUnit : LAMPORTS_PER_SOL),
+    priceImpactPct: (parseFloat(quote.priceImpactPct) || 0) * 100,
+    cached,
+  };
+}
+
+// 确认后的实际成交（result 返回给前端，原始数量用于持仓账本和止盈止损）
+interface ExecutedTrade {
+  result: TradeResult;
+  decimals: number;
+  lamports: number;
+  rawTokens: number;
+  rawBalance: number | null; // 成交后的 Token 余额（原始数量，未读取到链上成交时为 null）
+}
+
+const EXECUTED_TX_ATTEMPTS = 3; // 刚确认的交易 RPC 可能还查不到，重试几次
+const EXECUTED_TX_RETRY_DELAY = 1000;
+
+// 读取已确认交易并解析钱包的兑换，读取失败返回 null
+async function fetchExecutedSwap(signature: string, owner: string): Promise<ParsedSwap | null> {
+  for (let attempt = 1; attempt <= EXECUTED_TX_ATTEMPTS; attempt++) {
+    try {
+      const tx = await helius!.getTransaction(signature);
+      if (tx) return parseSwap(tx, owner, signature);
+    } catch (error: any) {
+      console.warn('[SolSniper] 读取成交交易失败:', error.message || error);
+    }
+    if (attempt < EXECUTED_TX_ATTEMPTS) {
+      await new Promise((r) => setTimeout(r, EXECUTED_TX_RETRY_DELAY));
+    }
+  }
+  return null;
+}
+
+// 计算成交数量、手续费和相对报价的成交价偏差（swap 为 null 时按报价计算）
+function buildExecutedTrade(
+  side: 'buy' | 'sell',
+  ca: string,
+  signature: string,
+  quote: JupiterQuote,
+  decimals: number,
+  swap: ParsedSwap | null
+): ExecutedTrade {
+  const quotedLamports = Number(side === 'buy' ? quote.inAmount : quote.outAmount);
+  const quotedRaw = Number(side === 'buy' ? quote.outAmount : quote.inAmount);
+  const lamports = swap ? swap.lamports : quotedLamports;
+  const rawTokens = swap ? swap.rawTokens : quotedRaw;
+
+  const tokenUnit = Math.pow(10, decimals);
+  const solAmount = lamports / LAMPORTS_PER_SOL;
+  const tokenAmount = rawTokens / tokenUnit;
+  const price = tokenAmount > 0 ? solAmount / tokenAmount : 0;
+  const quotedPrice = quotedRaw > 0 ? (quotedLamports / LAMPORTS_PER_SOL) / (quotedRaw / tokenUnit) : 0;
+  const result: TradeResult = {
+    signature,
+    side,
+    ca,
+    solAmount,
+    tokenAmount,
+    fee: swap ? swap.fee / LAMPORTS_PER_SOL : 0,
+    rent: swap ? swap.rent / LAMPORTS_PER_SOL : 0,
+    price,
+    quotedPrice,
+    priceDiffPct: quotedPrice > 0 ? (price / quotedPrice - 1) * 100 : 0,
+    verified: !!swap,
+  };
+  return { result, decimals, lamports, rawTokens, rawBalance: swap ? swap.postRawBalance : null };
+}
+
+// 读取不到 Token 精度时按最常见的 6 位计算（只影响记录的 Token 数量和价格）
+const FALLBACK_TOKEN_DECIMALS = 6;
+
+// 已发送交易的 Token 精度（查询失败时使用默认精度，不抛出错误）
+async function sentTradeDecimals(ca: string): Promise<number> {
+  return jupiter!.getTokenDecimals(ca).catch((error) => {
+    console.warn('[SolSniper] 获取 Token 精度失败，按', FALLBACK_TOKEN_DECIMALS, '位计算:', error.message || error);
+    return FALLBACK_TOKEN_DECIMALS;
+  });
+}
+
+// 读取已确认交易的实际成交（读取不到链上交易时按报价计算）
+// 交易已上链，这里不抛出错误，避免把成交的交易当作失败处理
+async function resolveExecutedTrade(
+  side: 'buy' | 'sell',
+  ca: string,
+  owner: string,
+  signature: string,
+  quote: JupiterQuote,
+  decimals?: number
+): Promise<ExecutedTrade> {
+  const parsed = await fetchExecutedSwap(signature, owner);
+  const swap = parsed && parsed.ca === ca && parsed.side === side ? parsed : null;
+  if (!swap) {
+    console.warn('[SolSniper] ⚠ 未能读取链上成交，按报价计算:', signature);
+  }
+  const tokenDecimals = swap ? swap.decimals : decimals ?? await sentTradeDecimals(ca);
+  const executed = buildExecutedTrade(side, ca, signature, quote, tokenDecimals, swap);
+  console.log('[SolSniper] 实际成交:', {
+    SOL: executed.result.solAmount,
+    Token: executed.result.tokenAmount,
+    手续费: executed.result.fee,
+    '较报价(%)': executed.result.priceDiffPct.toFixed(2),
+  });
+  return executed;
+}
+
+// 交易确认后立即按成交后的余额重新预加载（卖出是最需要速度的操作，不等面板下次预加载）
+// 只预加载已缓存该 CA 的标签页，优先发起交易的标签页；不等待结果
+function warmPreload(ca: string, owner: string, executed: ExecutedTrade, tabId?: number) {
+  if (owner !== wallet.publicKey) return;
+  const tabs = preloads.tabsOf(ca);
+  const target = tabId !== undefined && tabs.includes(tabId) ? tabId : tabs[0];
+  if (target === undefined) return;
+  const { rawBalance, decimals } = executed;
+  console.log('[SolSniper] 交易后预加载:', ca, '余额:', rawBalance ?? '重新查询');
+  preloadTrades(ca, target, rawBalance !== null ? { rawBalance, decimals } : undefined).catch((error) => {
+    console.warn('[SolSniper] 交易后预加载失败:', error.message || error);
+  });
+}
+
+// 快速发送的交易确认前按报价返回预计成交
+async function pendingTradeResult(
+  side: 'buy' | 'sell',
+  ca: string,
+  signature: string,
+  quote: JupiterQuote,
+  decimals?: number
+): Promise<TradeResult> {
+  const tokenDecimals = decimals ?? await sentTradeDecimals(ca);
+  return { ...buildExecutedTrade(side, ca, signature, quote, tokenDecimals, null).result, pending: true };
+}
+
+// 按实际买入价挂载止盈止损
+async function attachExitPlan(owner: string, executed: ExecutedTrade) {
+  const config = await getConfig();
+  const { result, decimals, rawTokens } = executed;
+  await exitManager.attach({ owner, ca: result.ca, decimals, entryPrice: result.price, rawAmount: rawTokens }, config.exitRules);
+}
+
+// 交易记录的输入（报价、配置和精度由 recordTrade 补充）
+type TradeEntry = Pick<TradeRecord, 'owner' | 'ca' | 'side' | 'status' | 'amount' | 'sell' | 'cached' | 'signature' | 'error' | 'timings'> & {
+  quote?: JupiterQuote;
+  executed?: ExecutedTrade; // 成功的交易记录实际成交
+};
+
+// 记录交易（失败只打印日志，不影响交易结果）
+async function recordTrade(entry: TradeEntry) {
+  try {
+    const { quote, executed, ...rest } = entry;
+    const config = await getConfig();
+    const decimals = executed?.decimals ?? await jupiter?.getTokenDecimals(entry.ca).catch(() => undefined);
+    const verified = executed?.result.verified;
+    await tradeHistory.record({
+      ...rest,
+      timestamp: Date.now(),
+      decimals,
+      inAmount: executed ? String(entry.side === 'buy' ? executed.lamports : executed.rawTokens) : quote?.inAmount,
+      outAmount: executed ? String(entry.side === 'buy' ? executed.rawTokens : executed.lamports) : quote?.outAmount,
+      priceImpactPct: quote ? (parseFloat(quote.priceImpactPct) || 0) * 100 : undefined,
+      priceDiffPct: verified ? executed!.result.priceDiffPct : undefined,
+      slippageBps: config.slippage,
+      priorityFee: config.priorityFee / LAMPORTS_PER_SOL,
+      fee: verified ? executed!.result.fee : undefined,
+      timings: { ...entry.timings },
+    });
+  } catch (error: any) {
+    console.error('[SolSniper] 记录交易失败:', error.message || error);
+  }
+}
+
+// 按实际成交记录持仓
+async function recordLedgerTrade(owner: string, executed: ExecutedTrade) {
+  const { result, decimals, rawTokens } = executed;
+  const trade = { owner, ca: result.ca, decimals, sol: result.solAmount, rawTokens };
+  if (result.side === 'buy') {
+    await ledger.recordBuy(trade);
+  } else {
+    await ledger.recordSell(trade);
+  }
+}
+
+// 持仓估值：按当前卖出报价计算持仓价值和未实现盈亏
+async function valuePosition(position: Position): Promise<PositionView> {
+  const avgCost = position.rawHeld > 0
+    ? position.costBasis / (position.rawHeld / Math.pow(10, position.decimals))
+    : 0;
+  const view: PositionView = { ...position, avgCost };
+  if (position.rawHeld <= 0) {
+    view.value = 0;
+    view.unrealizedPnl = 0;
+    return view;
+  }
+  try {
+    const quote = await jupiter!.getSellQuote(position.ca, position.rawHeld / Math.pow(10, position.decimals), position.decimals);
+    view.value = Number(quote.outAmount) / LAMPORTS_PER_SOL;
+    view.unrealizedPnl = view.value - position.costBasis;
+  } catch (error: any) {
+    view.valueError = error.message || String(error);
+  }
+  return view;
+}
+
+// 从链上导入钱包的历史兑换（默认当前钱包）
+async function importHistory(address: string = wallet.publicKey) {
+  if (!helius) {
+    throw new Error('请先配置 API Key');
+  }
+  if (!address || !wallet.hasWallet(address)) {
+    throw new Error('钱包不存在');
+  }
+  return importer.importWallet(address);
+}
+
+// 当前钱包在某个 Token 上的持仓
+async function getPosition(ca: string): Promise<PositionView | null> {
+  if (!jupiter) {
+    throw new Error('请先配置 API Key');
+  }
+  const position = await ledger.get(wallet.publicKey, ca);
+  return position ? valuePosition(position) : null;
+}
+
+// 所有钱包的持仓（已清仓的不查询报价）
+async function listPositions(): Promise<PositionView[]> {
+  if (!jupiter) {
+    throw new Error('请先配置 API Key');
+  }
+  const positions = await ledger.list();
+  return Promise.all(positions.map((position) => valuePosition(position)));
+}
+
+// 快速发送的交易（由 executeBuy / executeSell 提供确认后的处理）
+interface DetachedSend {
+  side: 'buy' | 'sell';
+  ca: string;
+  owner: string;
+  label: string;
+  signedTx: string;
+  timings: Record<string, number>;
+  progress: ProgressReporter;
+  onSent(signature: string): void;
+  finish(): Promise<TradeResult>;
+  abort(error: Error): Promise<void>;
+  pending(): Promise<TradeResult>;
+}
+
+// 快速发送：发送后立即返回预计成交，确认和记录由后台继续完成
+async function sendDetached(send: DetachedSend): Promise<TradeResult> {
+  console.log('[SolSniper] → 快速发送交易...');
+  const stepStart = performance.now();
+  const signature = await helius!.sendTransaction(send.signedTx);
+  send.timings['发送'] = performance.now() - stepStart;
+  send.onSent(signature);
+  send.progress('sent', { attempt: 1, signature });
+
+  confirmations.track({ signature, side: send.side, ca: send.ca, owner: send.owner, label: send.label, sentAt: Date.now() }, {
+    confirm: () => helius!.confirmTransaction(signature, DETACHED_CONFIRM_TIMEOUT, () => send.progress('confirming', { attempt: 1 })),
+    onConfirmed: send.finish,
+    onFailed: send.abort,
+  });
+  console.log('[SolSniper] ✓ 交易已发送，后台继续确认:', signature);
+  return send.pending();
+}
+
+// 交易签名后区块哈希的大致有效期，超过后未上链的交易不会再成交
+const SIGNED_TX_EXPIRY = 90000;
+const RESUME_MIN_CONFIRM_TIMEOUT = 5000; // 已过期的交易也至少查询一次状态
+
+// 继续确认后台重启前未完成的交易，并把结果补记到持仓、交易记录和止盈止损
+function resumeTrade(entries: JournalEntry[]) {
+  const latest = entries[entries.length - 1];
+  const label = latest.side === 'buy' ? `买入 ${latest.amount} SOL` : `卖出 ${describeSellOrder(latest.sell!)}`;
+  const timeout = Math.max(RESUME_MIN_CONFIRM_TIMEOUT, latest.signedAt + SIGNED_TX_EXPIRY - Date.now());
+  let landed: JournalEntry | undefined;
+  console.log('[SolSniper] 恢复未完成的交易:', label, entries.map((entry) => entry.signature));
+
+  // 重试时发送过多个签名，任意一个上链即为成交
+  const trade = { signature: latest.signature, side: latest.side, ca: latest.ca, owner: latest.owner, sentAt: latest.signedAt };
+  confirmations.track({ ...trade, label: `${label}（后台重启后恢复）` }, {
+    // 第一个确认的签名即返回，全部未确认时优先返回链上执行失败的结果
+    confirm: () => new Promise((resolve) => {
+      const outcomes: ConfirmOutcome[] = [];
+      entries.forEach((entry) => {
+        // 查询出错的签名按未确认处理，不影响其他签名
+        helius!.confirmTransaction(entry.signature, timeout).catch((error): ConfirmOutcome => {
+          console.warn('[SolSniper] 查询恢复交易状态失败:', entry.signature, error.message || error);
+          return { confirmed: false, error: error.message || '确认失败' };
+        }).then((outcome) => {
+          if (outcome.confirmed && !landed) {
+            landed = entry;
+            resolve(outcome);
+          }
+          outcomes.push(outcome);
+          if (outcomes.length === entries.length && !landed) {
+            resolve(outcomes.find((item) => item.failed) || outcome);
+          }
+        });
+      });
+    }),
+    onConfirmed: async () => {
+      const entry = landed!;
+      const executed = await resolveExecutedTrade(entry.side, entry.ca, entry.owner, entry.signature, entry.quote, entry.decimals);
+      // 上次恢复已补记但未来得及清除日志（补记后后台再次重启），不重复记录
+      if (await tradeHistory.hasSignature(entry.signature)) {
+        console.log('[SolSniper] 交易已有记录，跳过补记:', entry.signature);
+        await journal.resolve(entry.key);
+        return executed.result;
+      }
+      await recordLedgerTrade(entry.owner, executed).catch((error) => {
+        console.error('[SolSniper] 记录持仓失败:', error.message || error);
+      });
+      await recordTrade({
+        owner: entry.owner, ca: entry.ca, side: entry.side, status: 'success', amount: entry.amount, sell: entry.sell,
+        quote: entry.quote, executed, cached: entry.cached, signature: entry.signature, timings: entry.timings,
+      });
+      if (entry.attachExits) {
+        await attachExitPlan(entry.owner, executed).catch((error) => {
+          console.error('[SolSniper] 挂载止盈止损失败:', error.message || error);
+        });
+      }
+      await journal.resolve(entry.key);
+      return executed.result;
+    },
+    onFailed: async (error) => {
+      // 与正常流程一致：链上执行失败的买入不计入限额
+      if (latest.spend && error instanceof ChainExecutionError) {
+        await spendingGuard.release(latest.spend);
+      }
+      await recordTrade({
+        owner: latest.owner, ca: latest.ca, side: latest.side, status: 'failed', amount: latest.amount, sell: latest.sell,
+        quote: latest.quote, cached: latest.cached, signature: latest.signature, error: error.message, timings: latest.timings,
+      });
+      await journal.resolve(latest.key);
+    },
+  });
 }
 
+// 交易选项
+interface TradeOptions {
+  attachExits?: boolean; // 买入成功后按设置挂载止盈止损
+  tradeId?: string; // 面板的交易进度 ID
+  tabId?: number; // 发起交易的标签页（优先使用该标签页的预加载缓存）
+  detach?: boolean; // 快速发送：发送后立即返回，由后台继续确认（不重试）
+}
+
+// 面板发起的交易：推送进度，开启快速发送时发送后立即返回
+async function panelTradeOptions(tradeId: string | undefined, tabId: number): Promise<TradeOptions> {
+  const config = await getConfig();
+  return { tradeId, tabId, detach: !!config.fastSend };
+}
+
+// 快速发送的交易等待确认的时间（不重试，等到区块哈希接近过期）
+const DETACHED_CONFIRM_TIMEOUT = 60000;
+
 // 执行买入
-async function executeBuy(ca: string, amount: number): Promise<string> {
+// owner 指定买入钱包，默认使用当前钱包（仅当前钱包可使用预加载缓存）
+async function executeBuy(
+  ca: string,
+  amount: number,
+  owner: string = wallet.publicKey,
+  options: TradeOptions = {}
+): Promise<TradeResult> {
   const startTime = performance.now();
   const timings: Record<string, number> = {};
-  
+  const progress = tradeProgress.reporter(options.tradeId, 'buy', timings);
+  const isActiveWallet = owner === wallet.publicKey;
+  let spend: SpendRecord | null = null;
+  let sent = false;
+  let buyQuote: JupiterQuote | undefined; // 最终发送的交易对应的报价（用于计算买入价和记录交易）
+  let signature = '';
+  let useCache = false;
+  const journalKey = crypto.randomUUID();
+
+  // 发送前写入交易日志（后台重启后据此继续确认）
+  const journalSigned = (signedTx: string) => journal.record({
+    key: journalKey,
+    signature: transactionSignature(signedTx),
+    side: 'buy',
+    ca,
+    owner,
+    amount,
+    quote: buyQuote!,
+    cached: useCache,
+    attachExits: options.attachExits,
+    spend: spend || undefined,
+    timings: { ...timings },
+    signedAt: Date.now(),
+  });
+  const journalSent = (sentSignature: string) => {
+    journal.verifySent(journalKey, sentSignature).catch((error) => {
+      console.error('[SolSniper] 核对交易日志失败:', error.message || error);
+    });
+  };
+
+  // 交易确认后：记录持仓和交易，挂载止盈止损
+  const finish = async (): Promise<TradeResult> => {
+    const totalTime = performance.now() - startTime;
+    timings['总耗时'] = totalTime;
+
+    console.log('[SolSniper] ========== 买入交易完成 ==========');
+    console.log('[SolSniper] 交易签名:', signature);
+    console.log('[SolSniper] 性能统计:', {
+      ...timings,
+      '总耗时': totalTime.toFixed(2) + 'ms',
+      '平均速度': (totalTime / Object.keys(timings).length).toFixed(2) + 'ms/步骤'
+    });
+    console.log('[SolSniper] ====================================');
+
+    // 清除缓存和定时器（其他钱包买入不影响当前钱包的缓存，快速发送在发送时已清除）
+    if (isActiveWallet && !options.detach) {
+      preloads.invalidate(ca);
+    }
+
+    // 读取实际成交
+    const executed = await resolveExecutedTrade('buy', ca, owner, signature, buyQuote!);
+    warmPreload(ca, owner, executed, options.tabId);
+
+    // 记录持仓（失败不影响买入结果）
+    await recordLedgerTrade(owner, executed).catch((error) => {
+      console.error('[SolSniper] 记录持仓失败:', error.message || error);
+    });
+
+    // 记录交易（失败不影响买入结果）
+    await recordTrade({ owner, ca, side: 'buy', status: 'success', amount, quote: buyQuote, executed, cached: useCache, signature, timings });
+
+    // 挂载止盈止损（失败不影响买入结果）
+    if (options.attachExits) {
+      await attachExitPlan(owner, executed).catch((error) => {
+        console.error('[SolSniper] 挂载止盈止损失败:', error.message || error);
+      });
+    }
+
+    await journal.resolve(journalKey).catch((error) => {
+      console.error('[SolSniper] 清除交易日志失败:', error.message || error);
+    });
+    progress('landed', { signature, result: executed.result });
+    return executed.result;
+  };
+
+  // 交易失败：未发送或链上执行失败的买入不计入限额
+  const abort = async (error: any) => {
+    const totalTime = performance.now() - startTime;
+    console.error('[SolSniper] ========== 买入交易失败 ==========');
+    console.error('[SolSniper] 错误信息:', error.message || error);
+    console.error('[SolSniper] 失败耗时:', totalTime.toFixed(2), 'ms');
+    console.error('[SolSniper] 已完成的步骤:', timings);
+    console.error('[SolSniper] ====================================');
+    if (spend && (!sent || error instanceof ChainExecutionError)) {
+      await spendingGuard.release(spend);
+    }
+    timings['总耗时'] = totalTime;
+    progress('failed', { error: error.message || String(error) });
+    await recordTrade({
+      owner, ca, side: 'buy', status: 'failed', amount, quote: buyQuote, cached: useCache,
+      signature: signature || undefined, error: error.message || String(error), timings,
+    });
+    await journal.resolve(journalKey);
+  };
+
   try {
     console.log('[SolSniper] ========== 开始买入交易 ==========');
     console.log('[SolSniper] CA:', ca);
     console.log('[SolSniper] 买入金额:', amount, 'SOL');
-    console.log('[SolSniper] 钱包地址:', wallet.publicKey);
+    console.log('[SolSniper] 钱包地址:', owner);
     
     if (!helius || !jupiter) {
       throw new Error('Wallet not configured');
     }
 
-    let swapTx: string;
+    // 报价前检查买入限额，同时查询余额用于发送前检查最低 SOL 保留
+    spend = await spendingGuard.authorizeBuy(owner, ca, amount);
+    const balancePromise = helius.getBalance(owner).catch((error) => {
+      console.error('[SolSniper] 获取余额失败:', error);
+      return null;
+    });
+
+    let swapTx = '';
     let stepStart: number;
-    let useCache = false;
 
     // 检查配置是否启用缓存
     const config = await getConfig();
     const cacheEnabled = config.enableCache !== false; // 默认 true
 
-    // 检查缓存 - 只有在缓存新鲜时才使用（避免交易过期）
-    if (cacheEnabled && isCacheValid(ca) && preloadCache!.buyTrades.has(amount)) {
-      const cacheAge = Date.now() - preloadCache!.timestamp;
-      if (cacheAge < CACHE_FRESH_THRESHOLD) {
-        // 缓存新鲜，直接使用
-        console.log('[SolSniper] ✓ 使用缓存的交易数据（缓存年龄:', cacheAge, 'ms）');
-        swapTx = preloadCache!.buyTrades.get(amount)!.swapTx;
+    // 检查缓存 - 只有在区块哈希仍有效时才使用（避免交易过期）
+    const cache = cacheEnabled && isActiveWallet ? preloads.get(ca, options.tabId) : null;
+    const cachedBuy = cache?.buyTrades.get(amount);
+    if (cache && cachedBuy) {
+      const cacheAge = Date.now() - cache.timestamp;
+      if (isSwapUsable(cachedBuy)) {
+        // 缓存有效，直接使用
+        console.log('[SolSniper] ✓ 使用缓存的交易数据（缓存年龄:', cacheAge, 'ms, 剩余区块:', blockClock.blocksLeft(cachedBuy.lastValidBlockHeight), '）');
+        takeSwap(cache, cachedBuy);
+        swapTx = cachedBuy.swapTx;
+        buyQuote = cachedBuy.quote;
         timings['使用缓存'] = 0;
         useCache = true;
       } else {
-        // 缓存不够新鲜，重新获取报价和构建交易（确保交易有效）
-        console.log('[SolSniper] ⚠ 缓存不够新鲜（年龄:', cacheAge, 'ms），重新获取交易');
+        // 区块哈希即将过期，重新获取报价和构建交易（确保交易有效）
+        console.log('[SolSniper] ⚠ 缓存的交易即将过期（年龄:', cacheAge, 'ms），重新获取交易');
       }
     } else if (!cacheEnabled) {
       console.log('[SolSniper] 缓存已禁用，实时获取交易');
@@ -258,6 +1154,7 @@ async function executeBuy(ca: string, amount: number): Promise<string> {
 
     if (!useCache) {
       // 实时获取
+      progress('quoting');
       console.log('[SolSniper] → 获取买入报价...');
       stepStart = performance.now();
       const quote = await jupiter.getBuyQuote(ca, amount);
@@ -266,20 +1163,22 @@ async function executeBuy(ca: string, amount: number): Promise<string> {
       
       console.log('[SolSniper] → 构建交易...');
       stepStart = performance.now();
-      const swap = await jupiter.getSwapTransaction(quote, wallet.publicKey);
+      const swap = await jupiter.getSwapTransaction(quote, owner);
       timings['构建交易'] = performance.now() - stepStart;
       console.log('[SolSniper] ✓ 交易构建成功，耗时:', timings['构建交易'].toFixed(2), 'ms');
       swapTx = swap.swapTransaction;
+      buyQuote = quote;
     }
 
-    // 签名
+    // 签名（使用缓存时优先使用预签名的交易）
     console.log('[SolSniper] → 签名交易...');
     stepStart = performance.now();
     let signedTx: string;
     try {
-      signedTx = wallet.signTransaction(swapTx);
+      const presigned = useCache ? usePresigned(cachedBuy!, owner) : null;
+      signedTx = presigned ?? await wallet.signTransaction(swapTx, owner);
       timings['签名交易'] = performance.now() - stepStart;
-      console.log('[SolSniper] ✓ 交易签名成功，耗时:', timings['签名交易'].toFixed(2), 'ms');
+      console.log('[SolSniper] ✓', presigned ? '使用预签名的交易' : '交易签名成功', '耗时:', timings['签名交易'].toFixed(2), 'ms');
       console.log('[SolSniper] 签名后交易长度:', signedTx.length, '字符');
     } catch (signError: any) {
       // 如果签名失败且使用了缓存，可能是交易过期，尝试重新获取
@@ -296,14 +1195,15 @@ async function executeBuy(ca: string, amount: number): Promise<string> {
         
         console.log('[SolSniper] → 重新构建交易...');
         stepStart = performance.now();
-        const swap = await jupiter.getSwapTransaction(quote, wallet.publicKey);
+        const swap = await jupiter.getSwapTransaction(quote, owner);
         timings['构建交易(重试)'] = performance.now() - stepStart;
         console.log('[SolSniper] ✓ 交易构建成功，耗时:', timings['构建交易(重试)'].toFixed(2), 'ms');
         swapTx = swap.swapTransaction;
+        buyQuote = quote;
         
         // 重新签名
         stepStart = performance.now();
-        signedTx = wallet.signTransaction(swapTx);
+        signedTx = await wallet.signTransaction(swapTx, owner);
         timings['签名交易(重试)'] = performance.now() - stepStart;
         console.log('[SolSniper] ✓ 交易签名成功，耗时:', timings['签名交易(重试)'].toFixed(2), 'ms');
       } else {
@@ -311,19 +1211,56 @@ async function executeBuy(ca: string, amount: number): Promise<string> {
       }
     }
 
+    progress('signed');
+
+    // 发送前检查最低 SOL 保留
+    const balance = await balancePromise;
+    if (balance === null) {
+      throw new Error('获取余额失败，无法检查最低 SOL 保留');
+    }
+    spendingGuard.checkReserve(balance, amount);
+
+    if (options.detach) {
+      sent = true;
+      await journalSigned(signedTx);
+      return await sendDetached({
+        side: 'buy',
+        ca,
+        owner,
+        label: `买入 ${amount} SOL`,
+        signedTx,
+        timings,
+        progress,
+        onSent: (sentSignature) => {
+          signature = sentSignature;
+          journalSent(sentSignature);
+          if (isActiveWallet) {
+            preloads.invalidate(ca);
+          }
+        },
+        finish,
+        abort,
+        pending: () => pendingTradeResult('buy', ca, signature, buyQuote!),
+      });
+    }
+
     // 发送并确认交易（最多重试2次）
     const MAX_RETRIES = 2;
-    let signature: string = '';
     let confirmed = false;
     let lastError = '';
 
     for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
       console.log('[SolSniper] → 发送交易到链上 (尝试 ' + attempt + '/' + MAX_RETRIES + ')...');
+      await journalSigned(signedTx);
       stepStart = performance.now();
 
       try {
         // 发送并等待确认
-        const result = await helius.sendAndConfirmTransaction(signedTx, 25000);
+        sent = true;
+        const result = await helius.sendAndConfirmTransaction(signedTx, 25000, (event, sent) => {
+          if (event === 'sent') journalSent(sent);
+          progress(event === 'sent' ? 'sent' : 'confirming', { attempt, signature: sent });
+        });
         timings['发送+确认(尝试' + attempt + ')'] = performance.now() - stepStart;
 
         if (result.confirmed) {
@@ -339,8 +1276,8 @@ async function executeBuy(ca: string, amount: number): Promise<string> {
         console.warn('[SolSniper] ⚠ 交易未确认:', lastError);
 
         // 如果是链上执行失败(滑点等)，不重试
-        if (lastError.includes('链上执行失败')) {
-          throw new Error(lastError);
+        if (result.failed) {
+          throw new ChainExecutionError(lastError);
         }
 
       } catch (sendError: any) {
@@ -348,7 +1285,7 @@ async function executeBuy(ca: string, amount: number): Promise<string> {
         console.warn('[SolSniper] ⚠ 交易失败:', lastError);
 
         // 如果是明确的执行错误，不重试
-        if (lastError.includes('链上执行失败')) {
+        if (sendError instanceof ChainExecutionError) {
           throw sendError;
         }
       }
@@ -356,20 +1293,23 @@ async function executeBuy(ca: string, amount: number): Promise<string> {
       // 如果需要重试，重新获取交易
       if (attempt < MAX_RETRIES) {
         console.log('[SolSniper] → 重新获取交易进行重试...');
+        progress('retry', { attempt: attempt + 1, error: lastError });
 
         stepStart = performance.now();
         const quote = await jupiter.getBuyQuote(ca, amount);
         timings['获取报价(重试' + attempt + ')'] = performance.now() - stepStart;
 
         stepStart = performance.now();
-        const swap = await jupiter.getSwapTransaction(quote, wallet.publicKey);
+        const swap = await jupiter.getSwapTransaction(quote, owner);
         timings['构建交易(重试' + attempt + ')'] = performance.now() - stepStart;
         swapTx = swap.swapTransaction;
+        buyQuote = quote;
 
         stepStart = performance.now();
-        signedTx = wallet.signTransaction(swapTx);
+        signedTx = await wallet.signTransaction(swapTx, owner);
         timings['签名交易(重试' + attempt + ')'] = performance.now() - stepStart;
 
+        progress('signed', { attempt: attempt + 1 });
         console.log('[SolSniper] ✓ 新交易准备完成');
       }
     }
@@ -377,11 +1317,128 @@ async function executeBuy(ca: string, amount: number): Promise<string> {
     if (!confirmed) {
       throw new Error('买入失败: ' + lastError);
     }
+  } catch (error: any) {
+    await abort(error);
+    throw error;
+  }
 
+  // 交易已确认，之后的记录出错也不按失败处理
+  return finish();
+}
+
+// 在区间内生成随机金额（保留4位小数）
+function randomAmount(min: number, max: number): number {
+  const value = min + Math.random() * (max - min);
+  return Math.round(value * 10000) / 10000;
+}
+
+// 批量买入：多个钱包并行执行同一笔买入
+async function executeBundleBuy(request: BundleBuyRequest): Promise<BundleBuyResult> {
+  const startTime = performance.now();
+  const { ca, amount, wallets, randomRange } = request;
+
+  if (!wallets || wallets.length === 0) {
+    throw new Error('请选择至少一个钱包');
+  }
+  if (randomRange && !(randomRange.min > 0 && randomRange.max >= randomRange.min)) {
+    throw new Error('随机金额区间无效');
+  }
+
+  // 解析每个钱包的买入金额
+  const plans = wallets.map(({ address, amount: walletAmount }) => ({
+    address,
+    label: wallet.getLabel(address),
+    amount: walletAmount && walletAmount > 0
+      ? walletAmount
+      : randomRange
+        ? randomAmount(randomRange.min, randomRange.max)
+        : amount,
+  }));
+
+  for (const plan of plans) {
+    if (!(plan.amount > 0)) {
+      throw new Error(`${plan.label} 的买入金额无效`);
+    }
+  }
+
+  console.log('[SolSniper] ========== 开始批量买入 ==========');
+  console.log('[SolSniper] CA:', ca);
+  console.log('[SolSniper] 钱包数:', plans.length);
+  console.log('[SolSniper] 买入计划:', plans.map((p) => `${p.label}: ${p.amount} SOL`));
+
+  const settled = await Promise.allSettled(
+    plans.map((plan) => executeBuy(ca, plan.amount, plan.address, { attachExits: !!request.attachExits }))
+  );
+
+  const results: BundleBuyWalletResult[] = settled.map((outcome, i) => ({
+    ...plans[i],
+    success: outcome.status === 'fulfilled',
+    signature: outcome.status === 'fulfilled' ? outcome.value.signature : undefined,
+    result: outcome.status === 'fulfilled' ? outcome.value : undefined,
+    error: outcome.status === 'rejected' ? (outcome.reason?.message || String(outcome.reason)) : undefined,
+  }));
+
+  const succeeded = results.filter((r) => r.success);
+  const summary: BundleBuyResult = {
+    results,
+    succeeded: succeeded.length,
+    failed: results.length - succeeded.length,
+    totalSol: succeeded.reduce((sum, r) => sum + r.amount, 0),
+  };
+
+  const totalTime = performance.now() - startTime;
+  console.log('[SolSniper] ========== 批量买入完成 ==========');
+  console.log('[SolSniper] 成功:', summary.succeeded, '失败:', summary.failed, '总额:', summary.totalSol, 'SOL');
+  console.log('[SolSniper] 总耗时:', totalTime.toFixed(2), 'ms');
+  console.log('[SolSniper] ====================================');
+
+  return summary;
+}
+
+// 执行卖出
+async function executeSell(
+  ca: string,
+  order: SellOrder,
+  owner: string = wallet.publicKey,
+  options: TradeOptions = {}
+): Promise<TradeResult> {
+  const startTime = performance.now();
+  const timings: Record<string, number> = {};
+  const progress = tradeProgress.reporter(options.tradeId, 'sell', timings);
+  const isActiveWallet = owner === wallet.publicKey;
+  let stepStart: number;
+  let sellQuote: JupiterQuote | undefined; // 最终发送的交易对应的报价（用于记录持仓和交易）
+  let sellDecimals: number | undefined;
+  let signature = '';
+  let useCache = false;
+  const journalKey = crypto.randomUUID();
+
+  // 发送前写入交易日志（后台重启后据此继续确认）
+  const journalSigned = (signedTx: string) => journal.record({
+    key: journalKey,
+    signature: transactionSignature(signedTx),
+    side: 'sell',
+    ca,
+    owner,
+    sell: order,
+    decimals: sellDecimals,
+    quote: sellQuote!,
+    cached: useCache,
+    timings: { ...timings },
+    signedAt: Date.now(),
+  });
+  const journalSent = (sentSignature: string) => {
+    journal.verifySent(journalKey, sentSignature).catch((error) => {
+      console.error('[SolSniper] 核对交易日志失败:', error.message || error);
+    });
+  };
+
+  // 交易确认后：记录持仓和交易
+  const finish = async (): Promise<TradeResult> => {
     const totalTime = performance.now() - startTime;
     timings['总耗时'] = totalTime;
-    
-    console.log('[SolSniper] ========== 买入交易完成 ==========');
+
+    console.log('[SolSniper] ========== 卖出交易完成 ==========');
     console.log('[SolSniper] 交易签名:', signature);
     console.log('[SolSniper] 性能统计:', {
       ...timings,
@@ -390,49 +1447,70 @@ async function executeBuy(ca: string, amount: number): Promise<string> {
     });
     console.log('[SolSniper] ====================================');
 
-    // 清除缓存和定时器
-    clearCacheRefresh();
-    preloadCache = null;
+    // 清除缓存和定时器（快速发送在发送时已清除）
+    if (isActiveWallet && !options.detach) {
+      preloads.invalidate(ca);
+    }
+
+    // 读取实际成交
+    const executed = await resolveExecutedTrade('sell', ca, owner, signature, sellQuote!, sellDecimals);
+    warmPreload(ca, owner, executed, options.tabId);
 
-    return signature;
-  } catch (error: any) {
+    // 记录持仓（失败不影响卖出结果）
+    await recordLedgerTrade(owner, executed).catch((error) => {
+      console.error('[SolSniper] 记录持仓失败:', error.message || error);
+    });
+
+    // 记录交易（失败不影响卖出结果）
+    await recordTrade({ owner, ca, side: 'sell', status: 'success', sell: order, quote: sellQuote, executed, cached: useCache, signature, timings });
+
+    await journal.resolve(journalKey).catch((error) => {
+      console.error('[SolSniper] 清除交易日志失败:', error.message || error);
+    });
+    progress('landed', { signature, result: executed.result });
+    return executed.result;
+  };
+
+  // 交易失败：记录失败的交易
+  const abort = async (error: any) => {
     const totalTime = performance.now() - startTime;
-    console.error('[SolSniper] ========== 买入交易失败 ==========');
+    console.error('[SolSniper] ========== 卖出交易失败 ==========');
     console.error('[SolSniper] 错误信息:', error.message || error);
     console.error('[SolSniper] 失败耗时:', totalTime.toFixed(2), 'ms');
     console.error('[SolSniper] 已完成的步骤:', timings);
     console.error('[SolSniper] ====================================');
-    throw error;
-  }
-}
+    timings['总耗时'] = totalTime;
+    progress('failed', { error: error.message || String(error) });
+    await recordTrade({
+      owner, ca, side: 'sell', status: 'failed', sell: order, quote: sellQuote, cached: useCache,
+      signature: signature || undefined, error: error.message || String(error), timings,
+    });
+    await journal.resolve(journalKey);
+  };
 
-// 执行卖出
-async function executeSell(ca: string, percent: number): Promise<string> {
-  const startTime = performance.now();
-  const timings: Record<string, number> = {};
-  let stepStart: number;
-  
   try {
     console.log('[SolSniper] ========== 开始卖出交易 ==========');
     console.log('[SolSniper] CA:', ca);
-    console.log('[SolSniper] 卖出百分比:', percent + '%');
-    console.log('[SolSniper] 钱包地址:', wallet.publicKey);
+    console.log('[SolSniper] 卖出方式:', order.mode, '参数:', order.value);
+    console.log('[SolSniper] 钱包地址:', owner);
     
     if (!helius || !jupiter) {
       throw new Error('Wallet not configured');
     }
+    assertSellOrder(order);
 
     // 卖出时始终获取最新的token余额（因为余额可能在预加载后发生了变化）
     // 即使使用缓存交易，也要重新获取余额以确保数量准确
     console.log('[SolSniper] → 获取最新Token余额和精度...');
     stepStart = performance.now();
     const [tokenBalance, decimals] = await Promise.all([
-      helius.getTokenBalance(wallet.publicKey, ca),
+      helius.getTokenBalance(owner, ca),
       jupiter.getTokenDecimals(ca),
     ]);
     timings['获取余额'] = performance.now() - stepStart;
     console.log('[SolSniper] ✓ 余额获取成功，耗时:', timings['获取余额'].toFixed(2), 'ms');
     console.log('[SolSniper]   最新余额:', tokenBalance, '精度:', decimals);
+    sellDecimals = decimals;
 
     if (tokenBalance === 0) {
       throw new Error('No token balance');
@@ -441,38 +1519,42 @@ async function executeSell(ca: string, percent: number): Promise<string> {
     // 获取原始余额（最小单位）用于精确计算
     console.log('[SolSniper] → 获取最新原始余额（用于精确计算）...');
     stepStart = performance.now();
-    const rawTokenBalance = await helius.getRawTokenBalance(wallet.publicKey, ca);
+    const rawTokenBalance = await helius.getRawTokenBalance(owner, ca);
     timings['获取原始余额'] = performance.now() - stepStart;
     console.log('[SolSniper] ✓ 原始余额获取成功，耗时:', timings['获取原始余额'].toFixed(2), 'ms');
     console.log('[SolSniper]   最新原始余额:', rawTokenBalance.toString());
 
     // 检查缓存中是否有预加载的卖出交易
     let swapTx: string;
-    let useCache = false;
 
     // 检查配置是否启用缓存
     const config = await getConfig();
     const cacheEnabled = config.enableCache !== false; // 默认 true
     
-    // 检查缓存 - 只有在缓存新鲜时才使用（避免交易过期）
+    // 检查缓存 - 只有在区块哈希仍有效时才使用（避免交易过期）
     // 但即使使用缓存，也要验证余额是否匹配（如果余额变化太大，应该重新构建交易）
-    if (cacheEnabled && isCacheValid(ca) && preloadCache!.sellTrades.has(percent)) {
-      const cacheAge = Date.now() - preloadCache!.timestamp;
-      const cachedBalance = preloadCache!.tokenBalance;
+    const cache = cacheEnabled && isActiveWallet ? preloads.get(ca, options.tabId) : null;
+    const cachedSell = cache ? getCachedSell(cache, order, decimals, rawTokenBalance) : undefined;
+    if (cache && cachedSell) {
+      const cacheAge = Date.now() - cache.timestamp;
+      const cachedBalance = cache.tokenBalance;
       const balanceDiff = Math.abs(tokenBalance - cachedBalance);
-      const balanceChangePercent = cachedBalance > 0 ? (balanceDiff / cachedBalance) * 100 : 0;
+      // 按数量卖出的交易不受余额变化影响（余额足够即可）
+      const balanceChangePercent = order.mode === 'percent' && cachedBalance > 0 ? (balanceDiff / cachedBalance) * 100 : 0;
       
-      // 如果缓存新鲜且余额变化不大（<5%），可以使用缓存
-      if (cacheAge < CACHE_FRESH_THRESHOLD && balanceChangePercent < 5) {
+      // 如果交易未过期且余额变化不大（<5%），可以使用缓存
+      if (isSwapUsable(cachedSell) && balanceChangePercent < 5) {
         console.log('[SolSniper] ✓ 使用缓存的卖出交易数据（缓存年龄:', cacheAge, 'ms, 余额变化:', balanceChangePercent.toFixed(2) + '%）');
-        swapTx = preloadCache!.sellTrades.get(percent)!.swapTx;
+        takeSwap(cache, cachedSell);
+        swapTx = cachedSell.swapTx;
+        sellQuote = cachedSell.quote;
         timings['使用缓存'] = 0;
         useCache = true;
       } else {
         if (balanceChangePercent >= 5) {
           console.log('[SolSniper] ⚠ 余额变化较大（', balanceChangePercent.toFixed(2) + '%），重新获取交易');
         } else {
-          console.log('[SolSniper] ⚠ 缓存不够新鲜（年龄:', cacheAge, 'ms），重新获取交易');
+          console.log('[SolSniper] ⚠ 缓存的交易即将过期（年龄:', cacheAge, 'ms），重新获取交易');
         }
       }
     } else if (!cacheEnabled) {
@@ -480,44 +1562,12 @@ async function executeSell(ca: string, percent: number): Promise<string> {
     }
 
     if (!useCache) {
-      // 计算卖出数量
-      // 为了避免精度丢失，使用原始余额（最小单位）来计算百分比
-      // 然后转换为 UI 数量传递给 Jupiter API
-      
-      if (rawTokenBalance === 0) {
-        throw new Error('No token balance');
-      }
-      
-      // 计算卖出百分比对应的原始数量（使用整数运算避免精度问题）
-      const rawSellAmount = Math.floor((rawTokenBalance * percent) / 100);
-      
-      if (rawSellAmount === 0) {
-        throw new Error('卖出数量太小，无法交易');
-      }
-      
-      // 转换为 UI 数量（用于显示和日志）
-      // 注意：这里使用精确的除法，但传递给 Jupiter 时应该使用原始数量
-      const sellAmount = rawSellAmount / Math.pow(10, decimals);
-      
-      console.log('[SolSniper] 卖出计算详情:', {
-        'UI余额': tokenBalance,
-        '原始余额': rawTokenBalance.toString(),
-        '卖出百分比': percent + '%',
-        '原始卖出数量': rawSellAmount.toString(),
-        'UI卖出数量': sellAmount,
-        '精度': decimals,
-        '验证': {
-          '原始数量转回UI': (rawSellAmount / Math.pow(10, decimals)),
-          'UI数量转回原始': Math.floor(sellAmount * Math.pow(10, decimals)).toString(),
-          '是否匹配': Math.floor(sellAmount * Math.pow(10, decimals)) === rawSellAmount
-        }
-      });
-
-      // 获取报价和交易
-      // 注意：直接传递原始数量给 getSellQuote，避免精度损失
+      // 计算卖出数量并获取报价
+      // 注意：使用原始余额计算，直接传递原始数量给 getSellQuote，避免精度损失
+      progress('quoting');
       console.log('[SolSniper] → 获取卖出报价...');
       stepStart = performance.now();
-      const quote = await jupiter.getSellQuote(ca, sellAmount, decimals);
+      const { rawSellAmount, quote } = await quoteSellOrder(ca, order, rawTokenBalance, decimals, options.tabId);
       timings['获取报价'] = performance.now() - stepStart;
       console.log('[SolSniper] ✓ 报价获取成功，耗时:', timings['获取报价'].toFixed(2), 'ms');
       
@@ -536,20 +1586,22 @@ async function executeSell(ca: string, percent: number): Promise<string> {
       
       console.log('[SolSniper] → 构建交易...');
       stepStart = performance.now();
-      const swap = await jupiter.getSwapTransaction(quote, wallet.publicKey);
+      const swap = await jupiter.getSwapTransaction(quote, owner);
       timings['构建交易'] = performance.now() - stepStart;
       console.log('[SolSniper] ✓ 交易构建成功，耗时:', timings['构建交易'].toFixed(2), 'ms');
       swapTx = swap.swapTransaction;
+      sellQuote = quote;
     }
 
-    // 签名
+    // 签名（使用缓存时优先使用预签名的交易）
     console.log('[SolSniper] → 签名交易...');
     stepStart = performance.now();
     let signedTx: string;
     try {
-      signedTx = wallet.signTransaction(swapTx);
+      const presigned = useCache ? usePresigned(cachedSell!, owner) : null;
+      signedTx = presigned ?? await wallet.signTransaction(swapTx, owner);
       timings['签名交易'] = performance.now() - stepStart;
-      console.log('[SolSniper] ✓ 交易签名成功，耗时:', timings['签名交易'].toFixed(2), 'ms');
+      console.log('[SolSniper] ✓', presigned ? '使用预签名的交易' : '交易签名成功', '耗时:', timings['签名交易'].toFixed(2), 'ms');
       console.log('[SolSniper] 签名后交易长度:', signedTx.length, '字符');
     } catch (signError: any) {
       // 如果签名失败且使用了缓存，可能是交易过期，尝试重新获取
@@ -561,30 +1613,29 @@ async function executeSell(ca: string, percent: number): Promise<string> {
         console.log('[SolSniper] → 重新获取Token余额和精度...');
         stepStart = performance.now();
         const [tokenBalance, decimals] = await Promise.all([
-          helius.getTokenBalance(wallet.publicKey, ca),
+          helius.getTokenBalance(owner, ca),
           jupiter.getTokenDecimals(ca),
         ]);
         timings['获取余额(重试)'] = performance.now() - stepStart;
         
-        const rawTokenBalance = await helius.getRawTokenBalance(wallet.publicKey, ca);
-        const rawSellAmount = Math.floor((rawTokenBalance * percent) / 100);
-        const sellAmount = rawSellAmount / Math.pow(10, decimals);
+        const rawTokenBalance = await helius.getRawTokenBalance(owner, ca);
         
         // 重新获取报价和构建交易
         console.log('[SolSniper] → 重新获取卖出报价...');
         stepStart = performance.now();
-        const quote = await jupiter.getSellQuote(ca, sellAmount, decimals);
+        const { quote } = await quoteSellOrder(ca, order, rawTokenBalance, decimals, options.tabId);
         timings['获取报价(重试)'] = performance.now() - stepStart;
         
         console.log('[SolSniper] → 重新构建交易...');
         stepStart = performance.now();
-        const swap = await jupiter.getSwapTransaction(quote, wallet.publicKey);
+        const swap = await jupiter.getSwapTransaction(quote, owner);
         timings['构建交易(重试)'] = performance.now() - stepStart;
         swapTx = swap.swapTransaction;
+        sellQuote = quote;
         
         // 重新签名
         stepStart = performance.now();
-        signedTx = wallet.signTransaction(swapTx);
+        signedTx = await wallet.signTransaction(swapTx, owner);
         timings['签名交易(重试)'] = performance.now() - stepStart;
         console.log('[SolSniper] ✓ 交易签名成功，耗时:', timings['签名交易(重试)'].toFixed(2), 'ms');
       } else {
@@ -592,19 +1643,47 @@ async function executeSell(ca: string, percent: number): Promise<string> {
       }
     }
 
+    progress('signed');
+
+    if (options.detach) {
+      await journalSigned(signedTx);
+      return await sendDetached({
+        side: 'sell',
+        ca,
+        owner,
+        label: `卖出 ${describeSellOrder(order)}`,
+        signedTx,
+        timings,
+        progress,
+        onSent: (sentSignature) => {
+          signature = sentSignature;
+          journalSent(sentSignature);
+          if (isActiveWallet) {
+            preloads.invalidate(ca);
+          }
+        },
+        finish,
+        abort,
+        pending: () => pendingTradeResult('sell', ca, signature, sellQuote!, decimals),
+      });
+    }
+
     // 发送并确认交易（最多重试2次）
     const MAX_RETRIES = 2;
-    let signature: string = '';
     let confirmed = false;
     let lastError = '';
 
     for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
       console.log('[SolSniper] → 发送交易到链上 (尝试 ' + attempt + '/' + MAX_RETRIES + ')...');
+      await journalSigned(signedTx);
       stepStart = performance.now();
 
       try {
         // 发送并等待确认
-        const result = await helius.sendAndConfirmTransaction(signedTx, 25000);
+        const result = await helius.sendAndConfirmTransaction(signedTx, 25000, (event, sent) => {
+          if (event === 'sent') journalSent(sent);
+          progress(event === 'sent' ? 'sent' : 'confirming', { attempt, signature: sent });
+        });
         timings['发送+确认(尝试' + attempt + ')'] = performance.now() - stepStart;
 
         if (result.confirmed) {
@@ -620,8 +1699,8 @@ async function executeSell(ca: string, percent: number): Promise<string> {
         console.warn('[SolSniper] ⚠ 交易未确认:', lastError);
 
         // 如果是链上执行失败(滑点等)，不重试
-        if (lastError.includes('链上执行失败')) {
-          throw new Error(lastError);
+        if (result.failed) {
+          throw new ChainExecutionError(lastError);
         }
 
       } catch (sendError: any) {
@@ -629,7 +1708,7 @@ async function executeSell(ca: string, percent: number): Promise<string> {
         console.warn('[SolSniper] ⚠ 交易失败:', lastError);
 
         // 如果是明确的执行错误，不重试
-        if (lastError.includes('链上执行失败')) {
+        if (sendError instanceof ChainExecutionError) {
           throw sendError;
         }
       }
@@ -637,25 +1716,26 @@ async function executeSell(ca: string, percent: number): Promise<string> {
       // 如果需要重试，重新获取交易
       if (attempt < MAX_RETRIES) {
         console.log('[SolSniper] → 重新获取交易进行重试...');
+        progress('retry', { attempt: attempt + 1, error: lastError });
 
         // 重新获取余额
-        const latestRawBalance = await helius.getRawTokenBalance(wallet.publicKey, ca);
-        const latestRawSellAmount = Math.floor((latestRawBalance * percent) / 100);
-        const latestSellAmount = latestRawSellAmount / Math.pow(10, decimals);
+        const latestRawBalance = await helius.getRawTokenBalance(owner, ca);
 
         stepStart = performance.now();
-        const quote = await jupiter.getSellQuote(ca, latestSellAmount, decimals);
+        const { quote } = await quoteSellOrder(ca, order, latestRawBalance, decimals, options.tabId);
         timings['获取报价(重试' + attempt + ')'] = performance.now() - stepStart;
 
         stepStart = performance.now();
-        const swap = await jupiter.getSwapTransaction(quote, wallet.publicKey);
+        const swap = await jupiter.getSwapTransaction(quote, owner);
         timings['构建交易(重试' + attempt + ')'] = performance.now() - stepStart;
         swapTx = swap.swapTransaction;
+        sellQuote = quote;
 
         stepStart = performance.now();
-        signedTx = wallet.signTransaction(swapTx);
+        signedTx = await wallet.signTransaction(swapTx, owner);
         timings['签名交易(重试' + attempt + ')'] = performance.now() - stepStart;
 
+        progress('signed', { attempt: attempt + 1 });
         console.log('[SolSniper] ✓ 新交易准备完成');
       }
     }
@@ -663,55 +1743,103 @@ async function executeSell(ca: string, percent: number): Promise<string> {
     if (!confirmed) {
       throw new Error('卖出失败: ' + lastError);
     }
+  } catch (error: any) {
+    await abort(error);
+    throw error;
+  }
 
-    const totalTime = performance.now() - startTime;
-    timings['总耗时'] = totalTime;
+  // 交易已确认，之后的记录出错也不按失败处理
+  return finish();
+}
 
-    console.log('[SolSniper] ========== 卖出交易完成 ==========');
-    console.log('[SolSniper] 交易签名:', signature);
-    console.log('[SolSniper] 性能统计:', {
-      ...timings,
-      '总耗时': totalTime.toFixed(2) + 'ms',
-      '平均速度': (totalTime / Object.keys(timings).length).toFixed(2) + 'ms/步骤'
-    });
-    console.log('[SolSniper] ====================================');
+// 每次预览的助记词账户数
+const MNEMONIC_PREVIEW_COUNT = 5;
 
-    // 清除缓存和定时器
-    clearCacheRefresh();
-    preloadCache = null;
+// 预览助记词派生的账户及余额
+async function previewMnemonic(mnemonic: string, pathId: DerivationPathId, start = 0): Promise<DerivedAccount[]> {
+  const normalized = normalizeMnemonic(mnemonic || '');
+  assertValidMnemonic(normalized);
+  getDerivationPath(pathId);
+  if (!Number.isInteger(start) || start < 0) {
+    throw new Error('起始账户序号必须为非负整数');
+  }
 
-    return signature;
-  } catch (error: any) {
-    const totalTime = performance.now() - startTime;
-    console.error('[SolSniper] ========== 卖出交易失败 ==========');
-    console.error('[SolSniper] 错误信息:', error.message || error);
-    console.error('[SolSniper] 失败耗时:', totalTime.toFixed(2), 'ms');
-    console.error('[SolSniper] 已完成的步骤:', timings);
-    console.error('[SolSniper] ====================================');
-    throw error;
+  const indexes = Array.from({ length: MNEMONIC_PREVIEW_COUNT }, (_, i) => start + i);
+  const accounts = await deriveKeypairs(normalized, pathId, indexes);
+  const addresses = accounts.map((a) => a.keypair.publicKey.toBase58());
+
+  let balances: Record<string, number> = {};
+  if (helius) {
+    try {
+      balances = await helius.getBalances(addresses);
+    } catch (e: any) {
+      console.error('[SolSniper] 获取派生账户余额失败:', e);
+    }
+  }
+
+  return accounts.map((account, i) => ({
+    index: account.index,
+    path: account.path,
+    address: addresses[i],
+    balance: balances[addresses[i]] || 0,
+    imported: wallet.hasWallet(addresses[i]),
+  }));
+}
+
+// 导入助记词派生的账户（助记词本身不保存）
+async function importMnemonic(
+  mnemonic: string,
+  pathId: DerivationPathId,
+  indexes: number[],
+  password: string,
+  label?: string
+): Promise<string[]> {
+  const normalized = normalizeMnemonic(mnemonic || '');
+  assertValidMnemonic(normalized);
+  getDerivationPath(pathId);
+  if (!Array.isArray(indexes) || indexes.length === 0) {
+    throw new Error('请选择要导入的账户');
   }
+  if (!indexes.every((index) => Number.isInteger(index) && index >= 0)) {
+    throw new Error('账户序号必须为非负整数');
+  }
+
+  const accounts = await deriveKeypairs(normalized, pathId, [...new Set(indexes)]);
+  const baseLabel = (label || '').trim();
+  return wallet.importKeypairs(
+    accounts.map((account) => ({
+      keypair: account.keypair,
+      label: baseLabel ? `${baseLabel} #${account.index + 1}` : '',
+    })),
+    password
+  );
 }
 
-// 获取钱包状态
-async function getWalletState() {
+// 获取钱包状态（包含所有钱包的余额）
+async function getWalletState(): Promise<WalletState> {
   try {
     const state = wallet.getState();
-    let balance = 0;
+    const wallets = wallet.listWallets();
+    let balances: Record<string, number> = {};
 
-    // 如果有地址且 helius 已初始化，尝试获取余额
-    if (state.address && helius) {
+    // 如果有钱包且 helius 已初始化，尝试获取余额
+    if (wallets.length > 0 && helius) {
       try {
-        balance = await helius.getBalance(state.address);
+        balances = await helius.getBalances(wallets.map((w) => w.address));
       } catch (e: any) {
         console.error('[SolSniper] 获取余额失败:', e);
-        // 如果获取失败，保持 balance 为 0
+        // 如果获取失败，余额保持为 0
       }
     }
 
     return {
       ...state,
-      isLocked: false, // 锁定功能已禁用
-      balance,
+      balance: balances[state.address] || 0,
+      wallets: wallets.map((w) => ({
+        ...w,
+        balance: balances[w.address] || 0,
+        isActive: w.address === state.address,
+      })),
     };
   } catch (error: any) {
     console.error('[SolSniper] getWalletState 异常:', error);
@@ -719,20 +1847,39 @@ async function getWalletState() {
   }
 }
 
+// 当前钱包变化时，已预加载的交易属于旧钱包，需要清除
+function resetPreloadCache() {
+  preloads.clear();
+}
+
+// 交易进度长连接、确认通知和标签页关闭时清除预加载缓存
+tradeProgress.listen();
+confirmations.listen();
+preloads.listen();
+// 钱包锁定时清除预签名的交易
+wallet.onLock(() => preloads.discardSigned());
+
 // 消息处理
 chrome.runtime.onMessage.addListener(
   (message: Message, sender, sendResponse: (response: MessageResponse) => void) => {
-    handleMessage(message)
+    ready
+      .then(() => handleMessage(message, sender.tab?.id ?? NO_TAB))
       .then((data) => sendResponse({ success: true, data }))
       .catch((error) => {
         console.error('[SolSniper] 消息处理失败:', message.type, error);
-        sendResponse({ success: false, error: error.message });
+        const response: MessageResponse = { success: false, error: error.message };
+        if (error instanceof LimitError) {
+          response.code = error.code;
+          response.data = error.violation;
+        }
+        sendResponse(response);
       });
     return true; // 保持消息通道开放
   }
 );
 
-async function handleMessage(message: Message): Promise<any> {
+// tabId 为发送消息的标签页（popup 发送的消息为 NO_TAB）
+async function handleMessage(message: Message, tabId: number = NO_TAB): Promise<any> {
   try {
     switch (message.type) {
       case 'GET_WALLET_STATE':
@@ -743,33 +1890,190 @@ async function handleMessage(message: Message): Promise<any> {
 
       case 'SAVE_CONFIG':
         await saveConfig(message.payload);
-        await updateClients(message.payload);
+        await updateClients(await getConfig());
         return true;
 
-      case 'IMPORT_WALLET':
-        // 如果已有钱包，先删除旧钱包
-        if (wallet.publicKey) {
-          await wallet.remove();
-        }
-        const address = await wallet.importKey(message.payload.privateKey);
+      case 'IMPORT_WALLET': {
+        const { privateKey, password, label } = message.payload;
+        const address = await wallet.importKey(privateKey, password, label);
+        resetPreloadCache();
         return { address };
+      }
+
+      case 'PREVIEW_MNEMONIC': {
+        const { mnemonic, path, start } = message.payload;
+        return previewMnemonic(mnemonic, path, start);
+      }
+
+      case 'IMPORT_MNEMONIC': {
+        const { mnemonic, path, indexes, password, label } = message.payload;
+        const addresses = await importMnemonic(mnemonic, path, indexes, password, label);
+        resetPreloadCache();
+        return { addresses };
+      }
+
+      case 'CREATE_WALLET': {
+        const { password, label } = message.payload;
+        const address = await wallet.createWallet(password, label);
+        resetPreloadCache();
+        return wallet.revealNewWallet(address);
+      }
+
+      case 'REVEAL_NEW_WALLET':
+        return wallet.revealNewWallet(message.payload.address);
+
+      case 'CONFIRM_WALLET_BACKUP':
+        await wallet.confirmBackup(message.payload.address, message.payload.answers);
+        return getWalletState();
 
       case 'REMOVE_WALLET':
-        await wallet.remove();
+        await wallet.remove(message.payload.address);
+        resetPreloadCache();
+        return getWalletState();
+
+      case 'RENAME_WALLET':
+        await wallet.rename(message.payload.address, message.payload.label);
+        return getWalletState();
+
+      case 'REORDER_WALLETS':
+        await wallet.reorder(message.payload.addresses);
+        return getWalletState();
+
+      case 'SET_ACTIVE_WALLET':
+        if (message.payload.address !== wallet.publicKey) {
+          await wallet.setActive(message.payload.address);
+          resetPreloadCache();
+        }
+        return getWalletState();
+
+      case 'UNLOCK_WALLET':
+        await wallet.unlock(message.payload.password);
+        return getWalletState();
+
+      case 'LOCK_WALLET':
+        wallet.lock();
         return true;
 
+      case 'EXPORT_BACKUP':
+        return createBackup(wallet, ledger, tradeHistory, message.payload.password);
+
+      case 'RESTORE_BACKUP': {
+        const { content, backupPassword, walletPassword, mode } = message.payload;
+        const result = await restoreBackup(wallet, ledger, tradeHistory, content, backupPassword, walletPassword, mode);
+        await updateClients(await getConfig());
+        resetPreloadCache();
+        return result;
+      }
+
       case 'PRELOAD_TRADES':
-        await preloadTrades(message.payload.ca);
+        preloads.open(tabId, message.payload.ca);
+        if (message.payload.custom) {
+          setCustomPresets(tabId, message.payload.ca, message.payload.custom);
+        }
+        await preloadTrades(message.payload.ca, tabId);
+        return {
+          ready: true,
+          cached: preloads.get(message.payload.ca, tabId)?.buyTrades.size || 0,
+        };
+
+      case 'RELEASE_PRELOAD':
+        preloads.release(tabId, message.payload?.ca);
+        return true;
+
+      case 'PRELOAD_CUSTOM_TRADE':
+        await preloadCustomTrades(message.payload.ca, message.payload, tabId);
         return {
           ready: true,
-          cached: preloadCache?.buyTrades.size || 0,
+          cached: preloads.get(message.payload.ca, tabId)?.buyTrades.size || 0,
         };
 
       case 'EXECUTE_BUY':
-        return executeBuy(message.payload.ca, message.payload.amount);
+        assertBuyAmount(message.payload.amount);
+        return executeBuy(message.payload.ca, message.payload.amount, wallet.publicKey, {
+          ...(await panelTradeOptions(message.payload.tradeId, tabId)),
+          attachExits: !!message.payload.attachExits,
+        });
+
+      case 'EXECUTE_BUNDLE_BUY':
+        return executeBundleBuy(message.payload);
 
       case 'EXECUTE_SELL':
-        return executeSell(message.payload.ca, message.payload.percent);
+        return executeSell(
+          message.payload.ca,
+          { mode: 'percent', value: message.payload.percent },
+          wallet.publicKey,
+          await panelTradeOptions(message.payload.tradeId, tabId)
+        );
+
+      case 'EXECUTE_SELL_TOKENS':
+        return executeSell(
+          message.payload.ca,
+          { mode: 'tokens', value: message.payload.amount },
+          wallet.publicKey,
+          await panelTradeOptions(message.payload.tradeId, tabId)
+        );
+
+      case 'EXECUTE_SELL_SOL_VALUE':
+        return executeSell(
+          message.payload.ca,
+          { mode: 'solValue', value: message.payload.solAmount },
+          wallet.publicKey,
+          await panelTradeOptions(message.payload.tradeId, tabId)
+        );
+
+      case 'OVERRIDE_LIMIT':
+        return spendingGuard.grantOverride(message.payload.kind, message.payload.value);
+
+      case 'CREATE_ORDER':
+        return createOrder(message.payload);
+
+      case 'LIST_ORDERS':
+        return orderBook.list(message.payload?.ca);
+
+      case 'CANCEL_ORDER':
+        return orderBook.cancel(message.payload.id);
+
+      case 'LIST_EXIT_PLANS':
+        return exitManager.list(message.payload?.ca);
+
+      case 'CANCEL_EXIT_PLAN':
+        return exitManager.cancel(message.payload.id);
+
+      case 'CREATE_SCHEDULE':
+        return createSchedule(message.payload);
+
+      case 'LIST_SCHEDULES':
+        return scheduler.list(message.payload?.ca);
+
+      case 'PAUSE_SCHEDULE':
+        return scheduler.pause(message.payload.id);
+
+      case 'RESUME_SCHEDULE':
+        return scheduler.resume(message.payload.id);
+
+      case 'CANCEL_SCHEDULE':
+        return scheduler.cancel(message.payload.id);
+
+      case 'GET_POSITION':
+        return getPosition(message.payload.ca);
+
+      case 'LIST_POSITIONS':
+        return listPositions();
+
+      case 'LIST_TRADES':
+        return tradeHistory.query(message.payload);
+
+      case 'EXPORT_TRADES':
+        return tradeHistory.exportTrades(message.payload.format, message.payload.filter);
+
+      case 'IMPORT_HISTORY':
+        return importHistory(message.payload?.address);
+
+      case 'GET_TOKEN_MARKET':
+        return getTokenMarket(message.payload.ca);
+
+      case 'GET_TRADE_QUOTE':
+        return getTradeQuote(message.payload.ca, message.payload.side, message.payload.value, message.payload.mode, tabId);
 
       case 'GET_TOKEN_BALANCE':
         if (!helius) throw new Error('Not ready');
@@ -786,5 +2090,18 @@ async function handleMessage(message: Message): Promise<any> {
 
 // IMPORT_WALLET 现在由 handleMessage 统一处理
 
-// 初始化
-init();
+// 自动锁定、挂单、止盈止损和分批买入闹钟
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === AUTO_LOCK_ALARM) {
+    console.log('[SolSniper] 自动锁定时间已到，锁定钱包');
+    wallet.lock();
+  } else if (alarm.name === WATCH_ALARM) {
+    // 等待初始化完成（Service Worker 可能被闹钟唤醒）
+    ready.then(() => watcher.run()).catch((error) => {
+      console.error('[SolSniper] 定时任务执行失败:', error);
+    });
+  }
+});
+
+// 初始化（消息处理需等待初始化完成，避免 Service Worker 重启后读到未恢复的状态）
+const ready = init();
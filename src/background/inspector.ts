@@ -0,0 +1,325 @@
+import {
+  AddressLookupTableAccount,
+  PublicKey,
+  Transaction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { HeliusClient } from './helius';
+import { DEFAULT_ALLOWED_PROGRAMS, SOL_MINT } from '../shared/types';
+
+// 签名前交易检查
+//
+// 解析交易的顶层指令（包括地址查找表中的账户），拒绝：
+// - 调用白名单以外的程序
+// - 向非本钱包账户转出 SOL 或 Token
+// - 将 Jupiter 兑换结果发送到非本钱包的 Token 账户
+// - 修改 Token 账户权限等危险指令
+// - 远高于设置的优先费
+
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const TOKEN_2022_PROGRAM = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+const ATA_PROGRAM = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL';
+const COMPUTE_BUDGET_PROGRAM = 'ComputeBudget111111111111111111111111111111';
+const JUPITER_PROGRAM = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+
+// Jupiter v6 兑换指令（Anchor 指令标识 -> 账户位置）
+// authority: 用户签名账户，destination: 接收兑换结果的 Token 账户，
+// optionalDestination: 可选的目标账户（未使用时为程序地址），mint: 输出 Token
+const JUPITER_ROUTES: Record<string, { authority: number; destination: number; optionalDestination?: number; mint: number }> = {
+  e517cb977ae3ad2a: { authority: 1, destination: 3, optionalDestination: 4, mint: 5 }, // route
+  '96564774a75d0e68': { authority: 1, destination: 3, optionalDestination: 4, mint: 5 }, // route_with_token_ledger
+  d033ef977b2bed5c: { authority: 1, destination: 3, optionalDestination: 4, mint: 6 }, // exact_out_route
+  c1209b3341d69c81: { authority: 2, destination: 6, mint: 8 }, // shared_accounts_route
+  e6798f50779f6aaa: { authority: 2, destination: 6, mint: 8 }, // shared_accounts_route_with_token_ledger
+  b0d169a89a7d453e: { authority: 2, destination: 6, mint: 8 }, // shared_accounts_exact_out_route
+};
+
+// 默认计算单元上限（未设置 SetComputeUnitLimit 时按最大值估算优先费）
+const MAX_COMPUTE_UNITS = 1_400_000;
+// 实际优先费允许超过设置值的倍数（Jupiter 按模拟结果换算单价，会有少量误差）
+const PRIORITY_FEE_TOLERANCE = 2;
+const PRIORITY_FEE_MARGIN_LAMPORTS = 100_000;
+
+// 解析后的指令（账户均已展开为地址）
+interface InspectedInstruction {
+  programId: string;
+  accounts: string[];
+  data: Uint8Array;
+}
+
+function readU32(data: Uint8Array, offset: number): number {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(offset, true);
+}
+
+function readU64(data: Uint8Array, offset: number): bigint {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength).getBigUint64(offset, true);
+}
+
+function toHex(data: Uint8Array): string {
+  return Array.from(data, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function shortKey(address: string): string {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`;
+}
+
+// 计算关联 Token 账户地址
+function getAssociatedTokenAddress(owner: string, mint: string, tokenProgram: string): string {
+  const [address] = PublicKey.findProgramAddressSync(
+    [new PublicKey(owner).toBuffer(), new PublicKey(tokenProgram).toBuffer(), new PublicKey(mint).toBuffer()],
+    new PublicKey(ATA_PROGRAM)
+  );
+  return address.toBase58();
+}
+
+export class TransactionInspector {
+  private helius: HeliusClient;
+  private allowedPrograms: Set<string>;
+  private maxPriorityFeeLamports: number;
+  private lookupTables: Map<string, AddressLookupTableAccount> = new Map();
+
+  constructor(helius: HeliusClient, allowedPrograms: string[], priorityFee: number) {
+    this.helius = helius;
+    this.allowedPrograms = new Set();
+    this.maxPriorityFeeLamports = 0;
+    this.updateSettings(allowedPrograms, priorityFee);
+  }
+
+  // 更新白名单和优先费上限（白名单为空时使用默认列表）
+  updateSettings(allowedPrograms: string[], priorityFee: number) {
+    const programs = allowedPrograms && allowedPrograms.length > 0 ? allowedPrograms : DEFAULT_ALLOWED_PROGRAMS;
+    this.allowedPrograms = new Set(programs);
+    this.maxPriorityFeeLamports = priorityFee * PRIORITY_FEE_TOLERANCE + PRIORITY_FEE_MARGIN_LAMPORTS;
+  }
+
+  // 检查交易，不通过时抛出错误
+  async inspect(tx: VersionedTransaction | Transaction, owner: string): Promise<void> {
+    const startTime = performance.now();
+    const { feePayer, signerCount, instructions } = await this.resolve(tx);
+
+    if (feePayer !== owner) {
+      this.reject(`手续费支付账户不是当前钱包 (${shortKey(feePayer)})`);
+    }
+    if (signerCount !== 1) {
+      this.reject(`交易需要 ${signerCount} 个签名，只允许当前钱包签名`);
+    }
+
+    // 本交易中属于当前钱包的账户（钱包本身、wSOL 账户及交易中为钱包创建的 Token 账户）
+    const ownedAccounts = new Set<string>([owner, getAssociatedTokenAddress(owner, SOL_MINT, TOKEN_PROGRAM)]);
+    let computeUnitLimit = MAX_COMPUTE_UNITS;
+    let computeUnitPrice = 0n;
+
+    for (const ix of instructions) {
+      if (!this.allowedPrograms.has(ix.programId)) {
+        this.reject(`交易调用了未授权的程序 ${shortKey(ix.programId)}`);
+      }
+
+      switch (ix.programId) {
+        case COMPUTE_BUDGET_PROGRAM:
+          if (ix.data[0] === 2) computeUnitLimit = readU32(ix.data, 1);
+          if (ix.data[0] === 3) computeUnitPrice = readU64(ix.data, 1);
+          break;
+        case SYSTEM_PROGRAM:
+          this.checkSystemInstruction(ix, owner, ownedAccounts);
+          break;
+        case TOKEN_PROGRAM:
+        case TOKEN_2022_PROGRAM:
+          this.checkTokenInstruction(ix, owner, ownedAccounts);
+          break;
+        case ATA_PROGRAM:
+          this.checkAtaInstruction(ix, owner, ownedAccounts);
+          break;
+        case JUPITER_PROGRAM:
+          this.checkJupiterInstruction(ix, owner, ownedAccounts);
+          break;
+        // 用户额外添加的程序只检查白名单
+      }
+    }
+
+    const priorityFeeLamports = Number((computeUnitPrice * BigInt(computeUnitLimit) + 999_999n) / 1_000_000n);
+    if (priorityFeeLamports > this.maxPriorityFeeLamports) {
+      this.reject(`优先费过高 (${(priorityFeeLamports / 1e9).toFixed(6)} SOL)`);
+    }
+
+    const totalTime = performance.now() - startTime;
+    console.log('[Inspector] ✓ 交易检查通过，指令数:', instructions.length, '耗时:', totalTime.toFixed(2), 'ms');
+  }
+
+  private reject(reason: string): never {
+    console.error('[Inspector] ✗ 交易检查未通过:', reason);
+    throw new Error(`交易检查未通过: ${reason}`);
+  }
+
+  // 系统程序：只允许向本钱包账户转账，以及由本钱包派生的账户创建
+  private checkSystemInstruction(ix: InspectedInstruction, owner: string, ownedAccounts: Set<string>) {
+    const type = ix.data.length >= 4 ? readU32(ix.data, 0) : -1;
+    switch (type) {
+      case 0: // CreateAccount（新账户必须签名，交易只有本钱包签名）
+        ownedAccounts.add(ix.accounts[1]);
+        return;
+      case 2: // Transfer
+        if (!ownedAccounts.has(ix.accounts[1])) {
+          this.reject(`SOL 转账目标不是本钱包账户 (${shortKey(ix.accounts[1])})`);
+        }
+        return;
+      case 3: { // CreateAccountWithSeed
+        const base = new PublicKey(ix.data.slice(4, 36)).toBase58();
+        if (base !== owner) {
+          this.reject('不允许为其他钱包创建账户');
+        }
+        ownedAccounts.add(ix.accounts[1]);
+        return;
+      }
+      default:
+        this.reject(`不允许的系统指令 (${type})`);
+    }
+  }
+
+  // Token 程序：只允许创建/关闭本钱包的账户、包装 SOL，以及向本钱包账户转账
+  private checkTokenInstruction(ix: InspectedInstruction, owner: string, ownedAccounts: Set<string>) {
+    const type = ix.data[0];
+    switch (type) {
+      case 1: // InitializeAccount [account, mint, owner, rent]
+        if (ix.accounts[2] !== owner) this.reject('Token 账户所有者不是当前钱包');
+        ownedAccounts.add(ix.accounts[0]);
+        return;
+      case 16: // InitializeAccount2 [account, mint, rent]，所有者在指令数据中
+      case 18: // InitializeAccount3 [account, mint]
+        if (new PublicKey(ix.data.slice(1, 33)).toBase58() !== owner) {
+          this.reject('Token 账户所有者不是当前钱包');
+        }
+        ownedAccounts.add(ix.accounts[0]);
+        return;
+      case 3: // Transfer [source, destination, authority]
+        if (!ownedAccounts.has(ix.accounts[1])) {
+          this.reject(`Token 转账目标不是本钱包账户 (${shortKey(ix.accounts[1])})`);
+        }
+        return;
+      case 12: { // TransferChecked [source, mint, destination, authority]
+        const destination = ix.accounts[2];
+        if (!ownedAccounts.has(destination) &&
+            destination !== getAssociatedTokenAddress(owner, ix.accounts[1], ix.programId)) {
+          this.reject(`Token 转账目标不是本钱包账户 (${shortKey(destination)})`);
+        }
+        return;
+      }
+      case 9: // CloseAccount [account, destination, owner]
+        if (ix.accounts[1] !== owner) {
+          this.reject(`关闭账户的租金接收方不是当前钱包 (${shortKey(ix.accounts[1])})`);
+        }
+        return;
+      case 17: // SyncNative
+        return;
+      default:
+        this.reject(`不允许的 Token 指令 (${type})`);
+    }
+  }
+
+  // 关联 Token 账户程序：只允许为当前钱包创建账户
+  private checkAtaInstruction(ix: InspectedInstruction, owner: string, ownedAccounts: Set<string>) {
+    const type = ix.data.length === 0 ? 0 : ix.data[0];
+    if (type !== 0 && type !== 1) {
+      this.reject(`不允许的关联账户指令 (${type})`);
+    }
+    // [payer, associatedAccount, wallet, mint, systemProgram, tokenProgram]
+    if (ix.accounts[2] !== owner) {
+      this.reject(`关联账户所有者不是当前钱包 (${shortKey(ix.accounts[2])})`);
+    }
+    ownedAccounts.add(ix.accounts[1]);
+  }
+
+  // Jupiter：兑换结果必须发送到当前钱包的 Token 账户
+  private checkJupiterInstruction(ix: InspectedInstruction, owner: string, ownedAccounts: Set<string>) {
+    const layout = JUPITER_ROUTES[toHex(ix.data.slice(0, 8))];
+    if (!layout) {
+      this.reject('未知的 Jupiter 指令');
+    }
+    if (ix.accounts[layout.authority] !== owner) {
+      this.reject('Jupiter 兑换的授权账户不是当前钱包');
+    }
+
+    const mint = ix.accounts[layout.mint];
+    const isOwned = (account: string) =>
+      ownedAccounts.has(account) ||
+      account === getAssociatedTokenAddress(owner, mint, TOKEN_PROGRAM) ||
+      account === getAssociatedTokenAddress(owner, mint, TOKEN_2022_PROGRAM);
+
+    if (!isOwned(ix.accounts[layout.destination])) {
+      this.reject(`兑换结果接收账户不是本钱包账户 (${shortKey(ix.accounts[layout.destination])})`);
+    }
+    if (layout.optionalDestination !== undefined) {
+      const optional = ix.accounts[layout.optionalDestination];
+      if (optional !== JUPITER_PROGRAM && !isOwned(optional)) {
+        this.reject(`兑换结果接收账户不是本钱包账户 (${shortKey(optional)})`);
+      }
+    }
+  }
+
+  // 展开交易中的全部指令
+  private async resolve(tx: VersionedTransaction | Transaction): Promise<{
+    feePayer: string;
+    signerCount: number;
+    instructions: InspectedInstruction[];
+  }> {
+    if (!(tx instanceof VersionedTransaction)) {
+      const message = tx.compileMessage();
+      return {
+        feePayer: message.accountKeys[0].toBase58(),
+        signerCount: message.header.numRequiredSignatures,
+        instructions: tx.instructions.map((ix) => ({
+          programId: ix.programId.toBase58(),
+          accounts: ix.keys.map((key) => key.pubkey.toBase58()),
+          data: new Uint8Array(ix.data),
+        })),
+      };
+    }
+
+    const message = tx.message;
+    const tableAddresses = message.addressTableLookups.map((lookup) => lookup.accountKey.toBase58());
+    let accountKeys;
+    try {
+      accountKeys = message.getAccountKeys({
+        addressLookupTableAccounts: await this.loadLookupTables(tableAddresses, false),
+      });
+    } catch {
+      // 缓存的查找表可能已扩展，重新获取一次
+      accountKeys = message.getAccountKeys({
+        addressLookupTableAccounts: await this.loadLookupTables(tableAddresses, true),
+      });
+    }
+
+    const keyAt = (index: number) => {
+      const key = accountKeys.get(index);
+      if (!key) this.reject('交易账户索引无效');
+      return key.toBase58();
+    };
+
+    return {
+      feePayer: keyAt(0),
+      signerCount: message.header.numRequiredSignatures,
+      instructions: message.compiledInstructions.map((ix) => ({
+        programId: keyAt(ix.programIdIndex),
+        accounts: ix.accountKeyIndexes.map(keyAt),
+        data: ix.data,
+      })),
+    };
+  }
+
+  // 获取地址查找表（查找表内容只会追加，缓存后可复用）
+  private async loadLookupTables(addresses: string[], refresh: boolean): Promise<AddressLookupTableAccount[]> {
+    const missing = refresh ? addresses : addresses.filter((address) => !this.lookupTables.has(address));
+    if (missing.length > 0) {
+      const accounts = await this.helius.getAccountsData(missing);
+      missing.forEach((address, i) => {
+        const data = accounts[i];
+        if (!data) this.reject(`地址查找表不存在 (${shortKey(address)})`);
+        this.lookupTables.set(address, new AddressLookupTableAccount({
+          key: new PublicKey(address),
+          state: AddressLookupTableAccount.deserialize(data),
+        }));
+      });
+    }
+    return addresses.map((address) => this.lookupTables.get(address)!);
+  }
+}
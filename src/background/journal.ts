@@ -0,0 +1,60 @@
+import bs58 from 'bs58';
+import { getTradeJournal, saveTradeJournal } from '../shared/storage';
+import { JournalEntry } from '../shared/types';
+
+// 交易日志：每个签名后的交易在发送前写入 chrome.storage.session，交易完成后删除
+// Service Worker 被挂起或重启时，未删除的记录在下次启动时继续确认并补记到交易记录
+// 不保存签名后的交易本身，恢复时只确认、不重新发送（用户可能已手动重试）
+
+// 已签名交易（base58 编码，与发送时的编码一致）的签名（交易格式以签名数组开头：1 字节数量 + 每个 64 字节）
+export function transactionSignature(signedTx: string): string {
+  return bs58.encode(bs58.decode(signedTx).subarray(1, 65));
+}
+
+export class TradeJournal {
+  // 加载中的 Promise 也缓存，避免批量买入同时写入导致记录丢失
+  private loading: Promise<JournalEntry[]> | null = null;
+
+  private load(): Promise<JournalEntry[]> {
+    if (!this.loading) {
+      this.loading = getTradeJournal();
+    }
+    return this.loading;
+  }
+
+  // 发送前写入
+  async record(entry: JournalEntry) {
+    const entries = await this.load();
+    entries.push(entry);
+    await saveTradeJournal(entries);
+  }
+
+  // 发送后核对 RPC 返回的签名，与写入的签名不一致时补记实际签名（否则重启后确认不到这笔交易）
+  async verifySent(key: string, signature: string) {
+    const group = (await this.load()).filter((entry) => entry.key === key);
+    if (group.length === 0 || group.some((entry) => entry.signature === signature)) return;
+    const latest = group[group.length - 1];
+    console.error('[SolSniper] 交易日志的签名与发送的签名不一致:', latest.signature, signature);
+    await this.record({ ...latest, signature });
+  }
+
+  // 交易完成（成功或失败已记录）后删除该交易的所有签名
+  async resolve(key: string) {
+    const entries = await this.load();
+    const remaining = entries.filter((entry) => entry.key !== key);
+    if (remaining.length === entries.length) return;
+    entries.splice(0, entries.length, ...remaining);
+    await saveTradeJournal(entries);
+  }
+
+  // 未完成的交易（同一笔交易的签名按发送顺序分组）
+  async unresolved(): Promise<JournalEntry[][]> {
+    const groups = new Map<string, JournalEntry[]>();
+    for (const entry of await this.load()) {
+      const group = groups.get(entry.key) || [];
+      group.push(entry);
+      groups.set(entry.key, group);
+    }
+    return [...groups.values()];
+  }
+}
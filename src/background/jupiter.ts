@@ -1,4 +1,4 @@
-import { JupiterQuote, JupiterSwapResponse, SOL_MINT, LAMPORTS_PER_SOL } from '../shared/types';
+import { CachedSwap, JupiterQuote, JupiterSwapResponse, SOL_MINT, LAMPORTS_PER_SOL } from '../shared/types';
 
 const JUPITER_QUOTE_API = 'https://api.jup.ag/swap/v1/quote';
 const JUPITER_SWAP_API = 'https://api.jup.ag/swap/v1/swap';
@@ -203,7 +203,7 @@ export class JupiterClient {
     tokenMint: string,
     amounts: number[],
     userPublicKey: string
-  ): Promise<Map<number, { quote: JupiterQuote; swapTx: string }>> {
+  ): Promise<Map<number, CachedSwap>> {
     const startTime = performance.now();
     const results = new Map();
     
@@ -228,7 +228,7 @@ export class JupiterClient {
     const swapPromises = quotes.map((quote, i) => {
       if (!quote) return null;
       return this.getSwapTransaction(quote, userPublicKey)
-        .then((swap) => ({ amount: amounts[i], quote, swapTx: swap.swapTransaction }))
+        .then((swap) => ({ amount: amounts[i], quote, swapTx: swap.swapTransaction, lastValidBlockHeight: swap.lastValidBlockHeight }))
         .catch((e) => {
           console.error(`[Jupiter] 获取交易失败 ${amounts[i]} SOL:`, e.message);
           return null;
@@ -242,7 +242,7 @@ export class JupiterClient {
 
     for (const swap of swaps) {
       if (swap) {
-        results.set(swap.amount, { quote: swap.quote, swapTx: swap.swapTx });
+        results.set(swap.amount, { quote: swap.quote, swapTx: swap.swapTx, lastValidBlockHeight: swap.lastValidBlockHeight });
       }
     }
 
@@ -259,23 +259,48 @@ export class JupiterClient {
     decimals: number,
     rawTokenBalance: number, // 原始余额（最小单位）
     userPublicKey: string
-  ): Promise<Map<number, { quote: JupiterQuote; swapTx: string }>> {
-    const startTime = performance.now();
-    const results = new Map();
+  ): Promise<Map<number, CachedSwap>> {
+    const results = new Map<number, CachedSwap>();
     
     console.log('[Jupiter] 预加载卖出交易，数量:', sellPresets.length, '个百分比');
     console.log('[Jupiter] 原始余额:', rawTokenBalance.toString(), '精度:', decimals);
 
-    // 计算每个百分比对应的UI卖出数量
-    const sellAmounts = sellPresets.map(percent => {
-      const rawSellAmount = Math.floor((rawTokenBalance * percent) / 100);
-      const uiSellAmount = rawSellAmount / Math.pow(10, decimals);
-      return { percent, uiSellAmount, rawSellAmount };
-    });
+    // 计算每个百分比对应的原始卖出数量
+    const sellAmounts = sellPresets.map(percent => ({
+      percent,
+      rawSellAmount: Math.floor((rawTokenBalance * percent) / 100),
+    }));
+
+    const trades = await this.preloadSellAmounts(
+      tokenMint,
+      sellAmounts.map(a => a.rawSellAmount),
+      decimals,
+      userPublicKey
+    );
+
+    for (const { percent, rawSellAmount } of sellAmounts) {
+      const trade = trades.get(rawSellAmount);
+      if (trade) {
+        results.set(percent, trade);
+      }
+    }
+
+    return results;
+  }
+
+  // 预加载指定原始数量的卖出交易 (按原始数量索引)
+  async preloadSellAmounts(
+    tokenMint: string,
+    rawSellAmounts: number[],
+    decimals: number,
+    userPublicKey: string
+  ): Promise<Map<number, CachedSwap>> {
+    const startTime = performance.now();
+    const results = new Map<number, CachedSwap>();
 
-    // 过滤掉数量为0的
-    const validAmounts = sellAmounts.filter(a => a.rawSellAmount > 0);
-    console.log('[Jupiter] 有效卖出数量:', validAmounts.length, '/', sellPresets.length);
+    // 过滤掉数量为0的和重复的
+    const validAmounts = [...new Set(rawSellAmounts)].filter(a => a > 0);
+    console.log('[Jupiter] 有效卖出数量:', validAmounts.length, '/', rawSellAmounts.length);
 
     if (validAmounts.length === 0) {
       console.warn('[Jupiter] 没有有效的卖出数量，跳过预加载');
@@ -285,9 +310,9 @@ export class JupiterClient {
     // 并行获取所有报价
     const quotesStart = performance.now();
     const quotes = await Promise.all(
-      validAmounts.map(({ percent, uiSellAmount }) =>
-        this.getSellQuote(tokenMint, uiSellAmount, decimals)
-          .then(quote => ({ percent, quote }))
+      validAmounts.map((rawSellAmount) =>
+        this.getSellQuote(tokenMint, rawSellAmount / Math.pow(10, decimals), decimals)
+          .then(quote => ({ rawSellAmount, quote }))
           .catch(() => null)
       )
     );
@@ -301,9 +326,10 @@ export class JupiterClient {
       if (!quoteData) return null;
       return this.getSwapTransaction(quoteData.quote, userPublicKey)
         .then((swap) => ({ 
-          percent: quoteData.percent, 
+          rawSellAmount: quoteData.rawSellAmount, 
           quote: quoteData.quote, 
-          swapTx: swap.swapTransaction 
+          swapTx: swap.swapTransaction,
+          lastValidBlockHeight: swap.lastValidBlockHeight,
         }))
         .catch(() => null);
     });
@@ -315,7 +341,7 @@ export class JupiterClient {
 
     for (const swap of swaps) {
       if (swap) {
-        results.set(swap.percent, { quote: swap.quote, swapTx: swap.swapTx });
+        results.set(swap.rawSellAmount, { quote: swap.quote, swapTx: swap.swapTx, lastValidBlockHeight: swap.lastValidBlockHeight });
       }
     }
 
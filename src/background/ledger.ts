@@ -0,0 +1,128 @@
+import { getPositions, savePositions } from '../shared/storage';
+import { Position } from '../shared/types';
+
+// 持仓账本：记录每笔确认交易的 SOL 和 Token 进出，按平均成本法计算持仓成本和已实现盈亏
+
+// 确认交易的实际进出（SOL 为 UI 数量，Token 为原始数量）
+export interface LedgerTrade {
+  owner: string;
+  ca: string;
+  decimals: number;
+  sol: number;
+  rawTokens: number;
+}
+
+function positionKey(owner: string, ca: string): string {
+  return `${owner}:${ca}`;
+}
+
+function emptyPosition(trade: LedgerTrade): Position {
+  const now = Date.now();
+  return {
+    owner: trade.owner,
+    ca: trade.ca,
+    decimals: trade.decimals,
+    solIn: 0,
+    solOut: 0,
+    rawTokensIn: 0,
+    rawTokensOut: 0,
+    rawHeld: 0,
+    costBasis: 0,
+    realizedPnl: 0,
+    buys: 0,
+    sells: 0,
+    openedAt: now,
+    updatedAt: now,
+  };
+}
+
+export class PositionLedger {
+  // 加载中的 Promise 也缓存，避免批量买入同时确认时重复加载导致记录丢失
+  private loading: Promise<Map<string, Position>> | null = null;
+
+  private load(): Promise<Map<string, Position>> {
+    if (!this.loading) {
+      this.loading = getPositions().then((positions) =>
+        new Map(positions.map((p) => [positionKey(p.owner, p.ca), p]))
+      );
+    }
+    return this.loading;
+  }
+
+  // 持仓列表（最近交易的在前），可按钱包和 Token 过滤
+  async list(filter: { owner?: string; ca?: string } = {}): Promise<Position[]> {
+    const positions = await this.load();
+    return [...positions.values()]
+      .filter((p) => (!filter.owner || p.owner === filter.owner) && (!filter.ca || p.ca === filter.ca))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async get(owner: string, ca: string): Promise<Position | null> {
+    return (await this.load()).get(positionKey(owner, ca)) || null;
+  }
+
+  // 记录买入：持仓成本增加买入花费的 SOL
+  async recordBuy(trade: LedgerTrade): Promise<Position> {
+    const position = await this.getOrCreate(trade);
+    position.solIn += trade.sol;
+    position.rawTokensIn += trade.rawTokens;
+    position.rawHeld += trade.rawTokens;
+    position.costBasis += trade.sol;
+    position.buys++;
+    position.updatedAt = Date.now();
+    await this.persist();
+    console.log('[Ledger] 记录买入:', trade.ca, trade.sol, 'SOL', '持仓成本:', position.costBasis.toFixed(6), 'SOL');
+    return position;
+  }
+
+  // 记录卖出：按平均成本扣除卖出部分的成本，差额计入已实现盈亏
+  // 卖出数量超过账本持仓时（例如插件外买入的 Token），超出部分成本按 0 计算
+  async recordSell(trade: LedgerTrade): Promise<Position> {
+    const position = await this.getOrCreate(trade);
+    const rawFromLedger = Math.min(trade.rawTokens, position.rawHeld);
+    const cost = position.rawHeld > 0 ? position.costBasis * (rawFromLedger / position.rawHeld) : 0;
+
+    position.solOut += trade.sol;
+    position.rawTokensOut += trade.rawTokens;
+    position.rawHeld -= rawFromLedger;
+    position.costBasis = position.rawHeld > 0 ? position.costBasis - cost : 0;
+    position.realizedPnl += trade.sol - cost;
+    position.sells++;
+    position.updatedAt = Date.now();
+    await this.persist();
+    console.log('[Ledger] 记录卖出:', trade.ca, trade.sol, 'SOL', '已实现盈亏:', position.realizedPnl.toFixed(6), 'SOL');
+    return position;
+  }
+
+  // 从备份恢复（replace 时替换全部，否则只添加不存在的持仓）
+  async restore(positions: Position[], replace: boolean): Promise<number> {
+    const current = await this.load();
+    if (replace) current.clear();
+    let added = 0;
+    for (const position of positions) {
+      const key = positionKey(position.owner, position.ca);
+      if (current.has(key)) continue;
+      current.set(key, position);
+      added++;
+    }
+    await this.persist();
+    return added;
+  }
+
+  private async getOrCreate(trade: LedgerTrade): Promise<Position> {
+    const positions = await this.load();
+    const key = positionKey(trade.owner, trade.ca);
+    let position = positions.get(key);
+    if (!position) {
+      position = emptyPosition(trade);
+      positions.set(key, position);
+    }
+    position.decimals = trade.decimals;
+    return position;
+  }
+
+  private async persist() {
+    const positions = await this.load();
+    await savePositions([...positions.values()]);
+  }
+}
@@ -0,0 +1,161 @@
+import {
+  getSpendRecords,
+  saveSpendRecords,
+  getLimitOverrides,
+  saveLimitOverrides,
+} from '../shared/storage';
+import { Config, LimitKind, LimitOverride, LimitViolation, SpendRecord } from '../shared/types';
+
+// 买入限额检查：单笔、单个 Token 24小时、24小时总额（按钱包统计）及最低 SOL 保留
+
+export const LIMIT_EXCEEDED = 'LIMIT_EXCEEDED';
+const WINDOW_MS = 24 * 60 * 60 * 1000;
+// 用户确认后临时调整限额的有效期
+const OVERRIDE_DURATION_MS = 10 * 60 * 1000;
+const EPSILON = 1e-9;
+
+const LIMIT_KINDS: LimitKind[] = ['perTrade', 'perToken', 'daily', 'reserve'];
+
+// 限额检查未通过，面板根据 code 提示用户是否临时调整
+export class LimitError extends Error {
+  readonly code = LIMIT_EXCEEDED;
+  readonly violation: LimitViolation;
+
+  constructor(message: string, violation: LimitViolation) {
+    super(message);
+    this.violation = violation;
+  }
+}
+
+function formatSol(value: number): string {
+  return String(Number(value.toFixed(4)));
+}
+
+export class SpendingGuard {
+  private limits: Record<LimitKind, number> = { perTrade: 0, perToken: 0, daily: 0, reserve: 0 };
+  private records: SpendRecord[] | null = null;
+  private overrides: Partial<Record<LimitKind, LimitOverride>> | null = null;
+
+  updateSettings(config: Config) {
+    this.limits = {
+      perTrade: Math.max(0, config.maxBuyPerTrade || 0),
+      perToken: Math.max(0, config.maxBuyPerToken || 0),
+      daily: Math.max(0, config.maxBuyDaily || 0),
+      reserve: Math.max(0, config.minSolReserve || 0),
+    };
+  }
+
+  // 加载支出记录和临时限额（只加载一次，之后在内存中修改，避免并发买入时丢失记录）
+  private async load() {
+    if (!this.records) {
+      const cutoff = Date.now() - WINDOW_MS;
+      this.records = (await getSpendRecords()).filter((r) => r.timestamp > cutoff);
+    }
+    if (!this.overrides) {
+      this.overrides = await getLimitOverrides();
+    }
+  }
+
+  // 当前生效的限额（临时调整未过期时优先；上限为 0 表示不限制）
+  private effectiveLimit(kind: LimitKind): number {
+    const configured = this.limits[kind];
+    const override = this.overrides?.[kind];
+    if (!override || override.expiresAt <= Date.now()) {
+      return configured;
+    }
+    if (kind === 'reserve') {
+      return Math.min(configured, override.value);
+    }
+    return configured === 0 ? 0 : Math.max(configured, override.value);
+  }
+
+  // 24小时内的支出
+  private spentSince(owner: string, ca?: string): number {
+    const cutoff = Date.now() - WINDOW_MS;
+    return this.records!
+      .filter((r) => r.owner === owner && r.timestamp > cutoff && (!ca || r.ca === ca))
+      .reduce((sum, r) => sum + r.amount, 0);
+  }
+
+  // 检查买入限额（报价前调用），通过后立即记录支出，失败时调用 release 撤销
+  async authorizeBuy(owner: string, ca: string, amount: number): Promise<SpendRecord> {
+    await this.load();
+
+    const perTrade = this.effectiveLimit('perTrade');
+    if (perTrade > 0 && amount > perTrade + EPSILON) {
+      throw new LimitError(
+        `单笔买入 ${formatSol(amount)} SOL 超过上限 ${formatSol(perTrade)} SOL`,
+        { kind: 'perTrade', limit: perTrade, required: amount }
+      );
+    }
+
+    const perToken = this.effectiveLimit('perToken');
+    if (perToken > 0) {
+      const spent = this.spentSince(owner, ca);
+      if (spent + amount > perToken + EPSILON) {
+        throw new LimitError(
+          `该 Token 24小时内已买入 ${formatSol(spent)} SOL，本次买入后将超过上限 ${formatSol(perToken)} SOL`,
+          { kind: 'perToken', limit: perToken, required: spent + amount }
+        );
+      }
+    }
+
+    const daily = this.effectiveLimit('daily');
+    if (daily > 0) {
+      const spent = this.spentSince(owner);
+      if (spent + amount > daily + EPSILON) {
+        throw new LimitError(
+          `24小时内已买入 ${formatSol(spent)} SOL，本次买入后将超过上限 ${formatSol(daily)} SOL`,
+          { kind: 'daily', limit: daily, required: spent + amount }
+        );
+      }
+    }
+
+    const record: SpendRecord = { id: crypto.randomUUID(), owner, ca, amount, timestamp: Date.now() };
+    this.records!.push(record);
+    await this.persist();
+    return record;
+  }
+
+  // 检查买入后剩余的 SOL 是否满足最低保留
+  checkReserve(balance: number, amount: number) {
+    const reserve = this.effectiveLimit('reserve');
+    const remaining = balance - amount;
+    if (remaining + EPSILON < reserve) {
+      throw new LimitError(
+        `余额不足：当前余额 ${formatSol(balance)} SOL，买入后需至少保留 ${formatSol(reserve)} SOL 用于手续费和账户租金`,
+        { kind: 'reserve', limit: reserve, required: Math.max(0, remaining) }
+      );
+    }
+  }
+
+  // 撤销未发送成功的买入记录
+  async release(record: SpendRecord) {
+    await this.load(); // 后台重启后恢复的交易可能在加载记录前撤销
+    this.records = this.records!.filter((r) => r.id !== record.id);
+    await this.persist();
+  }
+
+  // 用户确认后临时调整限额
+  async grantOverride(kind: LimitKind, value: number): Promise<LimitOverride> {
+    if (!LIMIT_KINDS.includes(kind)) {
+      throw new Error('无效的限额类型');
+    }
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error('无效的限额');
+    }
+    await this.load();
+
+    const override: LimitOverride = { value, expiresAt: Date.now() + OVERRIDE_DURATION_MS };
+    this.overrides![kind] = override;
+    await saveLimitOverrides(this.overrides!);
+    console.log('[Limits] 临时调整限额:', kind, value, '有效期至', new Date(override.expiresAt).toLocaleTimeString());
+    return override;
+  }
+
+  private async persist() {
+    const cutoff = Date.now() - WINDOW_MS;
+    this.records = this.records!.filter((r) => r.timestamp > cutoff);
+    await saveSpendRecords(this.records);
+  }
+}
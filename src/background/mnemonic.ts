@@ -0,0 +1,119 @@
+import { Keypair } from '@solana/web3.js';
+import { validateMnemonic, mnemonicToSeedWebcrypto } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english.js';
+import { DerivationPathId } from '../shared/types';
+
+// 助记词派生（BIP39 + SLIP-0010 ed25519）
+//
+// SLIP-0010 的 ed25519 只支持硬化派生，路径中的每一级都按硬化处理
+
+// 派生路径（{index} 为账户序号）
+export const DERIVATION_PATHS: Record<DerivationPathId, { label: string; path: string }> = {
+  phantom: { label: 'Phantom / Backpack', path: "m/44'/501'/{index}'/0'" },
+  solflare: { label: 'Solflare / Ledger', path: "m/44'/501'/{index}'" },
+  // solana-keygen 默认：直接取种子前32字节，只有一个账户
+  legacy: { label: 'Solana CLI (旧版)', path: 'm' },
+};
+
+const HARDENED_OFFSET = 0x80000000;
+const ED25519_SEED_KEY = 'ed25519 seed';
+
+// 规范化助记词：小写、合并空白
+export function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+// 校验助记词（英文词库，含校验和）
+export function assertValidMnemonic(mnemonic: string): void {
+  const words = mnemonic.split(' ');
+  if (words.length !== 12 && words.length !== 24) {
+    throw new Error('助记词应为12或24个单词');
+  }
+  if (!validateMnemonic(mnemonic, wordlist)) {
+    throw new Error('助记词无效，请检查拼写和顺序');
+  }
+}
+
+// 校验并返回路径配置
+export function getDerivationPath(pathId: DerivationPathId) {
+  const entry = DERIVATION_PATHS[pathId];
+  if (!entry) {
+    throw new Error('不支持的派生路径');
+  }
+  return entry;
+}
+
+// 生成指定序号的完整路径
+export function formatPath(pathId: DerivationPathId, index: number): string {
+  return getDerivationPath(pathId).path.replace('{index}', String(index));
+}
+
+async function hmacSha512(key: BufferSource, data: BufferSource): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    key,
+    { name: 'HMAC', hash: 'SHA-512' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, data));
+}
+
+// 解析路径为硬化序号列表
+function parsePath(path: string): number[] {
+  const segments = path.split('/');
+  if (segments[0] !== 'm') {
+    throw new Error(`派生路径格式无效: ${path}`);
+  }
+  return segments.slice(1).map((segment) => {
+    const index = parseInt(segment.replace(/'$/, ''), 10);
+    if (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET) {
+      throw new Error(`派生路径格式无效: ${path}`);
+    }
+    return index + HARDENED_OFFSET;
+  });
+}
+
+// SLIP-0010 派生 ed25519 私钥种子（32字节）
+async function deriveSeed(seed: Uint8Array, path: string): Promise<Uint8Array> {
+  let I = await hmacSha512(new TextEncoder().encode(ED25519_SEED_KEY), seed as BufferSource);
+  let key = I.slice(0, 32);
+  let chainCode = I.slice(32);
+
+  for (const index of parsePath(path)) {
+    const data = new Uint8Array(37);
+    data[0] = 0;
+    data.set(key, 1);
+    new DataView(data.buffer).setUint32(33, index);
+    I = await hmacSha512(chainCode, data);
+    key = I.slice(0, 32);
+    chainCode = I.slice(32);
+  }
+  return key;
+}
+
+// 从助记词派生一组账户
+export async function deriveKeypairs(
+  mnemonic: string,
+  pathId: DerivationPathId,
+  indexes: number[]
+): Promise<{ index: number; path: string; keypair: Keypair }[]> {
+  const seed = await mnemonicToSeedWebcrypto(mnemonic);
+
+  if (pathId === 'legacy') {
+    return indexes
+      .filter((index) => index === 0)
+      .map((index) => ({
+        index,
+        path: formatPath(pathId, index),
+        keypair: Keypair.fromSeed(seed.slice(0, 32)),
+      }));
+  }
+
+  const accounts = [];
+  for (const index of indexes) {
+    const path = formatPath(pathId, index);
+    accounts.push({ index, path, keypair: Keypair.fromSeed(await deriveSeed(seed, path)) });
+  }
+  return accounts;
+}
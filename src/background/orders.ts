@@ -0,0 +1,185 @@
+import { formatNumber } from '../shared/orders';
+import { getOrders, saveOrders } from '../shared/storage';
+import { LimitOrder, NewLimitOrder, OrderTrigger, SellOrder, TokenMarket } from '../shared/types';
+import { StoredList, TaskWatcher, WatchTask } from './watcher';
+
+// 本地挂单：按价格或市值触发，每次定时检查时查询 Jupiter 报价
+
+const MAX_FINISHED_ORDERS = 100; // 保留的已结束挂单数量
+
+// 挂单的行情查询和下单
+export interface OrderExecutor {
+  hasWallet(address: string): boolean;
+  getMarket(ca: string): Promise<TokenMarket>;
+  buy(ca: string, amount: number, owner: string): Promise<string>;
+  sell(ca: string, order: SellOrder, owner: string): Promise<string>;
+}
+
+// 检查触发条件
+function isTriggered(trigger: OrderTrigger, observed: number): boolean {
+  return trigger.direction === 'above' ? observed >= trigger.value : observed <= trigger.value;
+}
+
+// 触发原因说明
+function describeTrigger(trigger: OrderTrigger, observed: number): string {
+  const label = trigger.kind === 'price' ? '价格' : '市值';
+  const op = trigger.direction === 'above' ? '≥' : '≤';
+  return `${label} ${formatNumber(observed)} SOL ${op} 触发值 ${formatNumber(trigger.value)} SOL`;
+}
+
+export class OrderBook implements WatchTask {
+  readonly label = '挂单检查';
+  private store: StoredList<LimitOrder>;
+  private executor: OrderExecutor;
+  private watcher: TaskWatcher;
+
+  constructor(executor: OrderExecutor, watcher: TaskWatcher) {
+    this.executor = executor;
+    this.watcher = watcher;
+    this.store = new StoredList({
+      read: getOrders,
+      write: saveOrders,
+      isOpen: (order) => order.status === 'pending' || order.status === 'executing',
+      finishedAt: (order) => order.triggeredAt || order.createdAt,
+      maxFinished: MAX_FINISHED_ORDERS,
+      recover: (orders) => this.recover(orders),
+    });
+    watcher.add(this);
+  }
+
+  // 执行中被中断的挂单（Service Worker 重启）标记为失败，避免重复下单
+  private recover(orders: LimitOrder[]): boolean {
+    let interrupted = false;
+    for (const order of orders) {
+      if (order.status === 'executing') {
+        order.status = 'failed';
+        order.error = '执行中断（后台重启），请检查钱包确认是否已成交';
+        interrupted = true;
+      }
+    }
+    return interrupted;
+  }
+
+  // 挂单列表（最新的在前），可按 Token 过滤
+  async list(ca?: string): Promise<LimitOrder[]> {
+    const orders = await this.store.load();
+    return orders
+      .filter((order) => !ca || order.ca === ca)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  // 新建挂单（买入金额和卖出方式由调用方校验）
+  async create(input: NewLimitOrder, owner: string): Promise<LimitOrder> {
+    const { trigger } = input;
+    if (!input.ca || input.ca.length < 32) {
+      throw new Error('无效的CA地址');
+    }
+    if (input.side !== 'buy' && input.side !== 'sell') {
+      throw new Error('无效的挂单方向');
+    }
+    if (!trigger || !['price', 'marketCap'].includes(trigger.kind) || !['above', 'below'].includes(trigger.direction)) {
+      throw new Error('无效的触发条件');
+    }
+    if (!Number.isFinite(trigger.value) || trigger.value <= 0) {
+      throw new Error('触发值必须大于0');
+    }
+    if (!owner) {
+      throw new Error('钱包未初始化，请先导入钱包');
+    }
+
+    const orders = await this.store.load();
+    const order: LimitOrder = {
+      id: crypto.randomUUID(),
+      ca: input.ca,
+      side: input.side,
+      amount: input.side === 'buy' ? input.amount : undefined,
+      sell: input.side === 'sell' ? input.sell : undefined,
+      trigger: { kind: trigger.kind, direction: trigger.direction, value: trigger.value },
+      owner,
+      status: 'pending',
+      createdAt: Date.now(),
+    };
+    orders.push(order);
+    await this.store.persist();
+    console.log('[Orders] 新建挂单:', order.id, order.side, order.ca, describeTrigger(order.trigger, trigger.value));
+
+    await this.watcher.schedule();
+    return order;
+  }
+
+  // 取消挂单（仅限等待中的挂单）
+  async cancel(id: string): Promise<LimitOrder> {
+    const orders = await this.store.load();
+    const order = orders.find((o) => o.id === id);
+    if (!order) {
+      throw new Error('挂单不存在');
+    }
+    if (order.status !== 'pending') {
+      throw new Error('挂单已触发或已结束，无法取消');
+    }
+    order.status = 'cancelled';
+    await this.store.persist();
+    console.log('[Orders] 取消挂单:', id);
+
+    await this.watcher.schedule();
+    return order;
+  }
+
+  // 有等待中的挂单时每次闹钟都检查
+  async nextRunAt(): Promise<number | null> {
+    return (await this.store.load()).some((o) => o.status === 'pending') ? 0 : null;
+  }
+
+  // 检查所有等待中的挂单，触发的挂单依次执行
+  async evaluate() {
+    const pending = (await this.store.load()).filter((o) => o.status === 'pending');
+
+    // 同一 Token 只查询一次行情
+    const byMint = new Map<string, LimitOrder[]>();
+    for (const order of pending) {
+      byMint.set(order.ca, [...(byMint.get(order.ca) || []), order]);
+    }
+
+    for (const [ca, orders] of byMint) {
+      let market: TokenMarket;
+      try {
+        market = await this.executor.getMarket(ca);
+      } catch (error: any) {
+        console.warn('[Orders] 获取行情失败:', ca, error.message || error);
+        continue;
+      }
+
+      for (const order of orders) {
+        const observed = order.trigger.kind === 'price' ? market.price : market.marketCap;
+        if (order.status !== 'pending' || !isTriggered(order.trigger, observed)) continue;
+        await this.execute(order, observed);
+      }
+    }
+  }
+
+  // 执行已触发的挂单
+  private async execute(order: LimitOrder, observed: number) {
+    order.status = 'executing';
+    order.triggeredAt = Date.now();
+    order.observed = observed;
+    order.reason = describeTrigger(order.trigger, observed);
+    await this.store.persist();
+    console.log('[Orders] 挂单触发:', order.id, order.reason);
+
+    try {
+      if (!this.executor.hasWallet(order.owner)) {
+        throw new Error('下单钱包已删除');
+      }
+      order.signature = order.side === 'buy'
+        ? await this.executor.buy(order.ca, order.amount!, order.owner)
+        : await this.executor.sell(order.ca, order.sell!, order.owner);
+      order.status = 'filled';
+      console.log('[Orders] ✓ 挂单成交:', order.id, order.signature);
+    } catch (error: any) {
+      order.status = 'failed';
+      order.error = error.message || String(error);
+      console.error('[Orders] 挂单执行失败:', order.id, order.error);
+    }
+    await this.store.persist();
+  }
+}
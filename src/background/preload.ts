@@ -0,0 +1,289 @@
+import bs58 from 'bs58';
+import { CachedSwap, CustomTradePresets } from '../shared/types';
+
+// 预加载缓存：按标签页和 CA 分别缓存，多个标签页打开不同 Token 时互不覆盖
+// 条目数量有上限（超出时淘汰最久未使用的）
+// 标签页关闭或离开该 Token 页面（面板通知 CA 变化或页面卸载）时清除对应条目
+// 缓存的交易在区块哈希有效期内都可以使用，过期或价格偏离时才重新构建
+// 所有条目共用一个定时器：每次只查询一次区块高度，只校验最近使用过的条目，价格每次只轮流校验一个条目（避免触发 RPC 和 Jupiter 限流）
+// 预签名的交易在缓存被替换、清除或钱包锁定时清零丢弃（签名后的交易在过期前任何人都可以发送）
+
+// 预加载的交易数据
+export interface PreloadCache {
+  ca: string;
+  buyTrades: Map<number, CachedSwap>;
+  sellTrades: Map<number, CachedSwap>; // 卖出交易缓存
+  tokenSells: Map<number, CachedSwap>; // 按 Token 数量卖出的缓存（按原始数量索引）
+  tokenDecimals: number;
+  tokenBalance: number;
+  timestamp: number; // 构建时间
+  verifiedAt: number; // 最近一次校验仍有效的时间
+}
+
+export interface PreloadEntry {
+  tabId: number;
+  ca: string;
+  custom: CustomTradePresets | null; // 面板输入的自定义金额（预加载和定时刷新时一并缓存）
+  cache: PreloadCache | null;
+  usedAt: number; // 面板请求或交易最近一次使用的时间
+  priceCheckedAt: number; // 最近一次校验价格的时间
+}
+
+// 缓存校验和重新构建（由 background 提供，使用 Helius 区块高度和 Jupiter 实时报价）
+export interface PreloadRefresher {
+  updateBlockHeight(): Promise<void>;
+  isExpiring(cache: PreloadCache): boolean; // 区块哈希即将过期（按已查询的区块高度估算）
+  priceStaleReason(ca: string, cache: PreloadCache): Promise<string | null>; // 报价过旧或价格偏离实时报价的原因
+  rebuild(tabId: number, ca: string): Promise<void>;
+}
+
+export const NO_TAB = -1; // 不是从标签页发起的预加载
+const MAX_ENTRIES = 8; // 最多缓存的条目数
+const CACHE_CHECK_INTERVAL = 4000; // 4秒校验一次
+const CACHE_TTL = 15000; // 超过15秒未校验（校验连续失败或长时间未使用）不再使用
+const ACTIVE_WINDOW = 60000; // 60秒内使用过的条目才定时校验
+const SLOT_TIME = 400; // 出块间隔（毫秒）
+const MAX_HEIGHT_AGE = 30000; // 区块高度超过30秒未更新时不再估算
+
+// 区块高度：记录最近一次查询的高度，按出块间隔估算当前高度，点击交易时不需要额外查询
+// 实际出块可能慢于估算，估算值偏高，判断交易是否过期时偏保守
+export class BlockHeightClock {
+  private height = 0;
+  private observedAt = 0;
+
+  update(height: number) {
+    this.height = height;
+    this.observedAt = Date.now();
+  }
+
+  // 交易过期前剩余的区块数（没有近期的区块高度时返回 0）
+  blocksLeft(lastValidBlockHeight: number): number {
+    const elapsed = Date.now() - this.observedAt;
+    if (!this.height || elapsed > MAX_HEIGHT_AGE) return 0;
+    return lastValidBlockHeight - (this.height + Math.floor(elapsed / SLOT_TIME));
+  }
+}
+
+// 取出预签名的交易（base58 编码，只能使用一次，取出后清零）
+export function takePresigned(swap: CachedSwap): string | null {
+  const signed = swap.signed;
+  if (!signed) return null;
+  swap.signed = undefined;
+  const signedTx = bs58.encode(signed);
+  signed.fill(0);
+  return signedTx;
+}
+
+// 从缓存中取出要使用的交易（每笔缓存的交易只能使用一次）
+// 同一笔交易重新签名得到相同的签名，第二次发送不会上链，却会按成功重复记录
+export function takeSwap(cache: PreloadCache, swap: CachedSwap) {
+  for (const trades of [cache.buyTrades, cache.sellTrades, cache.tokenSells]) {
+    trades.forEach((cached, key) => {
+      if (cached === swap) trades.delete(key);
+    });
+  }
+}
+
+// 清零并丢弃缓存中所有预签名的交易
+function discardPresigned(cache: PreloadCache) {
+  for (const trades of [cache.buyTrades, cache.sellTrades, cache.tokenSells]) {
+    trades.forEach((swap) => {
+      swap.signed?.fill(0);
+      swap.signed = undefined;
+    });
+  }
+}
+
+export class PreloadCacheStore {
+  // Map 保持插入顺序，访问时移到末尾，第一个即最久未使用
+  private entries = new Map<string, PreloadEntry>();
+  private refresher: PreloadRefresher;
+  private checkTimer: ReturnType<typeof setInterval> | null = null;
+  private checking = false; // 校验或重新构建进行中（耗时可能超过校验间隔）
+
+  constructor(refresher: PreloadRefresher) {
+    this.refresher = refresher;
+  }
+
+  // 监听标签页关闭，需在 Service Worker 顶层调用
+  // 页面跳转由面板通知（没有 tabs 权限时 chrome.tabs.onUpdated 不提供页面地址）
+  listen() {
+    chrome.tabs.onRemoved.addListener((tabId) => this.evictTab(tabId));
+  }
+
+  // 面板的 CA 变化或页面卸载：清除该标签页其他 CA 的条目（ca 为空时全部清除）
+  release(tabId: number, ca?: string | null) {
+    if (tabId === NO_TAB) return;
+    this.evictTab(tabId, (entry) => entry.ca !== ca);
+  }
+
+  // 有效的缓存（优先当前标签页的，否则使用其他标签页同一 CA 的最新缓存）
+  // 当前标签页的条目标记为使用过，缓存已过期时下次定时校验会重新构建
+  get(ca: string, tabId: number = NO_TAB): PreloadCache | null {
+    const own = this.entries.get(this.key(tabId, ca));
+    if (own) this.touch(own);
+    if (own?.cache && this.isFresh(own.cache)) return own.cache;
+
+    let latest: PreloadEntry | null = null;
+    for (const entry of this.entries.values()) {
+      const cache = entry.cache;
+      if (entry.ca === ca && cache && this.isFresh(cache) && (!latest || cache.timestamp > latest.cache!.timestamp)) {
+        latest = entry;
+      }
+    }
+    if (latest) this.touch(latest);
+    return latest?.cache || null;
+  }
+
+  custom(tabId: number, ca: string): CustomTradePresets | null {
+    return this.entries.get(this.key(tabId, ca))?.custom || null;
+  }
+
+  setCustom(tabId: number, ca: string, custom: CustomTradePresets) {
+    this.open(tabId, ca).custom = custom;
+  }
+
+  // 面板请求预加载时取出或新建条目并标记为最近使用，超出上限时淘汰最久未使用的
+  // 同一标签页切换到其他 CA 时清除旧 CA 的条目
+  // 定时重新构建不调用，最近使用的顺序只随面板请求和交易变化
+  open(tabId: number, ca: string): PreloadEntry {
+    this.release(tabId, ca);
+    const entry = this.entries.get(this.key(tabId, ca)) || { tabId, ca, custom: null, cache: null, usedAt: 0, priceCheckedAt: 0 };
+    this.touch(entry);
+
+    while (this.entries.size > MAX_ENTRIES) {
+      const [oldestKey, oldest] = this.entries.entries().next().value!;
+      console.log('[Preload] 缓存已满，淘汰:', oldestKey);
+      this.remove(oldest);
+      this.entries.delete(oldestKey);
+    }
+    return entry;
+  }
+
+  // 保存预加载结果并开始定时校验（预加载期间条目已被清除时丢弃结果）
+  set(tabId: number, ca: string, cache: PreloadCache) {
+    const entry = this.entries.get(this.key(tabId, ca));
+    if (!entry) {
+      discardPresigned(cache);
+      return;
+    }
+    if (entry.cache && entry.cache !== cache) {
+      discardPresigned(entry.cache);
+    }
+    entry.cache = cache;
+    entry.priceCheckedAt = Date.now();
+    this.startChecks();
+  }
+
+  // 缓存了该 CA 的标签页（最近使用的在前）
+  tabsOf(ca: string): number[] {
+    return [...this.entries.values()].filter((entry) => entry.ca === ca).map((entry) => entry.tabId).reverse();
+  }
+
+  // 清除某个 CA 的缓存（交易后余额变化，所有标签页的缓存都失效）
+  invalidate(ca: string) {
+    for (const entry of this.entries.values()) {
+      if (entry.ca === ca) {
+        if (entry.cache) discardPresigned(entry.cache);
+        entry.cache = null;
+      }
+    }
+  }
+
+  // 清除所有预签名的交易（钱包锁定时），未签名的缓存仍可使用
+  discardSigned() {
+    this.entries.forEach((entry) => {
+      if (entry.cache) discardPresigned(entry.cache);
+    });
+  }
+
+  // 清除全部缓存（当前钱包变化时，已预加载的交易属于旧钱包）
+  clear() {
+    this.entries.forEach((entry) => this.remove(entry));
+    this.entries.clear();
+  }
+
+  private key(tabId: number, ca: string): string {
+    return `${tabId}:${ca}`;
+  }
+
+  // 标记为最近使用（移到 Map 末尾）
+  private touch(entry: PreloadEntry) {
+    const key = this.key(entry.tabId, entry.ca);
+    entry.usedAt = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+
+  private isFresh(cache: PreloadCache): boolean {
+    return Date.now() - cache.verifiedAt < CACHE_TTL;
+  }
+
+  private evictTab(tabId: number, filter: (entry: PreloadEntry) => boolean = () => true) {
+    for (const [key, entry] of this.entries) {
+      if (entry.tabId === tabId && filter(entry)) {
+        console.log('[Preload] 清除标签页缓存:', key);
+        this.remove(entry);
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  private startChecks() {
+    if (this.checkTimer) return;
+    this.checkTimer = setInterval(async () => {
+      if (this.checking) return;
+      this.checking = true;
+      try {
+        // 静默校验，失败不影响现有缓存（连续失败时缓存超过 CACHE_TTL 后不再使用）
+        await this.check();
+      } catch (error: any) {
+        console.warn('[Preload] 定时校验缓存失败:', error.message || error);
+      } finally {
+        this.checking = false;
+      }
+    }, CACHE_CHECK_INTERVAL);
+  }
+
+  // 校验最近使用过的条目：区块哈希即将过期的先重新构建，否则轮流校验一个条目的价格
+  // 每次最多重新构建一个条目
+  private async check() {
+    const cached = [...this.entries.values()].filter((entry) => entry.cache);
+    if (cached.length === 0) {
+      clearInterval(this.checkTimer!);
+      this.checkTimer = null;
+      return;
+    }
+    const now = Date.now();
+    const active = cached.filter((entry) => now - entry.usedAt < ACTIVE_WINDOW);
+    if (active.length === 0) return;
+
+    await this.refresher.updateBlockHeight();
+
+    const expiring = active.find((entry) => this.refresher.isExpiring(entry.cache!));
+    if (expiring) {
+      await this.rebuild(expiring, '区块哈希即将过期');
+      return;
+    }
+
+    const next = active.reduce((oldest, entry) => (entry.priceCheckedAt < oldest.priceCheckedAt ? entry : oldest));
+    next.priceCheckedAt = now;
+    const reason = await this.refresher.priceStaleReason(next.ca, next.cache!);
+    active.forEach((entry) => {
+      if (entry.cache && (entry !== next || !reason)) entry.cache.verifiedAt = Date.now();
+    });
+    if (reason) {
+      await this.rebuild(next, reason);
+    }
+  }
+
+  private async rebuild(entry: PreloadEntry, reason: string) {
+    console.log('[Preload] 重新构建缓存:', this.key(entry.tabId, entry.ca), reason);
+    await this.refresher.rebuild(entry.tabId, entry.ca);
+  }
+
+  // 移除条目前丢弃预签名的交易
+  private remove(entry: PreloadEntry) {
+    if (entry.cache) discardPresigned(entry.cache);
+  }
+}
@@ -0,0 +1,52 @@
+import { TRADE_PROGRESS_PORT, TradeProgressEvent, TradeStage } from '../shared/types';
+
+// 交易进度推送：面板通过 chrome.runtime.connect 建立长连接，后台在交易的各个阶段推送事件
+// 事件按 tradeId 区分（面板发起交易时生成），挂单、止盈止损等后台交易没有 tradeId，不推送
+
+export type ProgressDetail = Pick<TradeProgressEvent, 'attempt' | 'signature' | 'error' | 'result'>;
+
+// 单笔交易的进度报告
+export type ProgressReporter = (stage: TradeStage, detail?: ProgressDetail) => void;
+
+export class TradeProgress {
+  private ports = new Set<chrome.runtime.Port>();
+
+  // 需在 Service Worker 顶层调用，唤醒时才能收到连接
+  listen() {
+    chrome.runtime.onConnect.addListener((port) => {
+      if (port.name !== TRADE_PROGRESS_PORT) return;
+      this.ports.add(port);
+      port.onDisconnect.addListener(() => this.ports.delete(port));
+    });
+  }
+
+  // 创建单笔交易的进度报告（timings 为交易记录各步骤耗时的对象，推送时复制）
+  reporter(tradeId: string | undefined, side: 'buy' | 'sell', timings: Record<string, number>): ProgressReporter {
+    if (!tradeId) return () => {};
+    const startTime = performance.now();
+    let signature: string | undefined;
+    return (stage, detail = {}) => {
+      signature = detail.signature || signature;
+      this.broadcast({
+        tradeId,
+        side,
+        stage,
+        ...detail,
+        signature,
+        elapsed: performance.now() - startTime,
+        timings: { ...timings },
+      });
+    };
+  }
+
+  private broadcast(event: TradeProgressEvent) {
+    this.ports.forEach((port) => {
+      try {
+        port.postMessage(event);
+      } catch {
+        // 面板所在页面已关闭
+        this.ports.delete(port);
+      }
+    });
+  }
+}
@@ -0,0 +1,265 @@
+import { formatNumber } from '../shared/orders';
+import { getSchedules, saveSchedules } from '../shared/storage';
+import { NewSchedule, Schedule, ScheduleRun } from '../shared/types';
+import { StoredList, TaskWatcher, WatchTask } from './watcher';
+
+// 分批买入（TWAP）和定投（DCA）：按间隔分多次买入，定时检查时执行到期的计划
+
+const MIN_INTERVAL_MINUTES = 0.5; // 最短买入间隔（定时检查的闹钟不会更频繁）
+const MAX_CONSECUTIVE_FAILURES = 3; // 连续失败该次数后自动暂停
+const MAX_RUNS_PER_SCHEDULE = 50; // 每个计划保留的买入记录数
+const MAX_FINISHED_SCHEDULES = 50; // 保留的已结束计划数
+
+// 分批买入的下单
+export interface ScheduleExecutor {
+  hasWallet(address: string): boolean;
+  buy(ca: string, amount: number, owner: string): Promise<string>;
+}
+
+export class ScheduleManager implements WatchTask {
+  readonly label = '分批买入';
+  private store: StoredList<Schedule>;
+  private executor: ScheduleExecutor;
+  private watcher: TaskWatcher;
+
+  constructor(executor: ScheduleExecutor, watcher: TaskWatcher) {
+    this.executor = executor;
+    this.watcher = watcher;
+    this.store = new StoredList({
+      read: getSchedules,
+      write: saveSchedules,
+      isOpen: (schedule) => schedule.status === 'active' || schedule.status === 'paused',
+      finishedAt: (schedule) => schedule.updatedAt,
+      maxFinished: MAX_FINISHED_SCHEDULES,
+      recover: (schedules) => this.recover(schedules),
+    });
+    watcher.add(this);
+  }
+
+  // 买入途中被中断的计划（Service Worker 重启）记录失败并暂停，避免重复买入
+  private recover(schedules: Schedule[]): boolean {
+    let interrupted = false;
+    for (const schedule of schedules) {
+      if (schedule.runningSince) {
+        this.record(schedule, {
+          index: schedule.completedRuns + 1,
+          amount: this.nextAmount(schedule),
+          error: '执行中断（后台重启），请检查钱包确认是否已成交',
+          timestamp: schedule.runningSince,
+        });
+        schedule.runningSince = undefined;
+        if (schedule.status === 'active') {
+          this.pauseWith(schedule, '上次买入被中断，已自动暂停');
+        }
+        interrupted = true;
+      }
+    }
+    return interrupted;
+  }
+
+  // 计划列表（最新的在前），可按 Token 过滤
+  async list(ca?: string): Promise<Schedule[]> {
+    const schedules = await this.store.load();
+    return schedules
+      .filter((schedule) => !ca || schedule.ca === ca)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  // 新建计划（第一次买入在下次检查时立即执行）
+  async create(input: NewSchedule, owner: string): Promise<Schedule> {
+    if (!input.ca || input.ca.length < 32) {
+      throw new Error('无效的CA地址');
+    }
+    if (input.kind !== 'twap' && input.kind !== 'dca') {
+      throw new Error('无效的计划类型');
+    }
+    if (!Number.isFinite(input.amount) || input.amount <= 0) {
+      throw new Error('买入金额无效');
+    }
+    if (!Number.isInteger(input.runs) || input.runs < 0 || (input.kind === 'twap' && input.runs < 1)) {
+      throw new Error(input.kind === 'twap' ? '分批次数必须为正整数' : '定投次数必须为整数（0 表示不限）');
+    }
+    if (!Number.isFinite(input.intervalMinutes) || input.intervalMinutes < MIN_INTERVAL_MINUTES) {
+      throw new Error(`间隔不能少于 ${MIN_INTERVAL_MINUTES * 60} 秒`);
+    }
+    const jitterPct = input.jitterPct || 0;
+    if (!Number.isFinite(jitterPct) || jitterPct < 0 || jitterPct > 100) {
+      throw new Error('随机浮动必须在 0-100% 之间');
+    }
+    if (!owner) {
+      throw new Error('钱包未初始化，请先导入钱包');
+    }
+
+    const schedules = await this.store.load();
+    const now = Date.now();
+    const schedule: Schedule = {
+      id: crypto.randomUUID(),
+      ca: input.ca,
+      kind: input.kind,
+      amount: input.amount,
+      runs: input.runs,
+      intervalMinutes: input.intervalMinutes,
+      jitterPct,
+      owner,
+      chunkAmount: input.kind === 'twap' ? input.amount / input.runs : input.amount,
+      status: 'active',
+      completedRuns: 0,
+      spent: 0,
+      failures: 0,
+      nextRunAt: now,
+      createdAt: now,
+      updatedAt: now,
+      history: [],
+    };
+    schedules.push(schedule);
+    await this.store.persist();
+    console.log('[Schedules] 新建计划:', schedule.id, schedule.kind, schedule.ca,
+      '每次:', formatNumber(schedule.chunkAmount), 'SOL', '次数:', schedule.runs || '不限');
+
+    await this.watcher.schedule();
+    return schedule;
+  }
+
+  // 暂停（正在执行的这一次买入不受影响）
+  async pause(id: string): Promise<Schedule> {
+    const schedule = await this.find(id);
+    if (schedule.status !== 'active') {
+      throw new Error('计划未在运行');
+    }
+    this.pauseWith(schedule, '手动暂停');
+    await this.store.persist();
+
+    await this.watcher.schedule();
+    return schedule;
+  }
+
+  // 恢复，错过的买入不补，从现在开始继续
+  async resume(id: string): Promise<Schedule> {
+    const schedule = await this.find(id);
+    if (schedule.status !== 'paused') {
+      throw new Error('计划未暂停');
+    }
+    schedule.status = 'active';
+    schedule.failures = 0;
+    schedule.reason = undefined;
+    schedule.nextRunAt = Math.max(schedule.nextRunAt, Date.now());
+    schedule.updatedAt = Date.now();
+    await this.store.persist();
+    console.log('[Schedules] 恢复计划:', id);
+
+    await this.watcher.schedule();
+    return schedule;
+  }
+
+  async cancel(id: string): Promise<Schedule> {
+    const schedule = await this.find(id);
+    if (schedule.status !== 'active' && schedule.status !== 'paused') {
+      throw new Error('计划已结束');
+    }
+    this.finish(schedule, 'cancelled', '手动取消');
+    await this.store.persist();
+
+    await this.watcher.schedule();
+    return schedule;
+  }
+
+  // 最早到期的运行中计划
+  async nextRunAt(): Promise<number | null> {
+    const active = (await this.store.load()).filter((s) => s.status === 'active');
+    return active.length > 0 ? Math.min(...active.map((s) => s.nextRunAt)) : null;
+  }
+
+  // 执行所有到期的计划
+  async evaluate() {
+    const due = (await this.store.load()).filter((s) => s.status === 'active' && s.nextRunAt <= Date.now());
+    for (const schedule of due) {
+      // 执行前一个计划期间可能被暂停或取消
+      if (schedule.status !== 'active') continue;
+      if (!this.executor.hasWallet(schedule.owner)) {
+        this.finish(schedule, 'cancelled', '钱包已删除');
+        await this.store.persist();
+        continue;
+      }
+      await this.runOnce(schedule);
+    }
+  }
+
+  // 执行一次买入并安排下一次
+  private async runOnce(schedule: Schedule) {
+    const run: ScheduleRun = {
+      index: schedule.completedRuns + 1,
+      amount: this.nextAmount(schedule),
+      timestamp: Date.now(),
+    };
+    schedule.runningSince = run.timestamp;
+    await this.store.persist();
+    console.log('[Schedules] 执行第', run.index, '次买入:', schedule.id, formatNumber(run.amount), 'SOL');
+
+    try {
+      run.signature = await this.executor.buy(schedule.ca, run.amount, schedule.owner);
+      schedule.completedRuns++;
+      schedule.spent += run.amount;
+      schedule.failures = 0;
+      console.log('[Schedules] ✓ 买入成功:', schedule.id, run.signature);
+    } catch (error: any) {
+      // 失败的这一次在下个间隔重试
+      run.error = error.message || String(error);
+      schedule.failures++;
+      console.error('[Schedules] 买入失败:', schedule.id, run.error);
+    }
+    schedule.runningSince = undefined;
+    this.record(schedule, run);
+    schedule.nextRunAt = Date.now() + this.nextDelay(schedule);
+
+    if (schedule.status === 'active') {
+      if (schedule.runs > 0 && schedule.completedRuns >= schedule.runs) {
+        this.finish(schedule, 'completed', `已完成 ${schedule.completedRuns} 次买入，共 ${formatNumber(schedule.spent)} SOL`);
+      } else if (schedule.failures >= MAX_CONSECUTIVE_FAILURES) {
+        this.pauseWith(schedule, `连续失败 ${schedule.failures} 次，已自动暂停: ${run.error}`);
+      }
+    }
+    await this.store.persist();
+  }
+
+  // 本次买入金额（TWAP 最后一次买入剩余部分，避免累计误差）
+  private nextAmount(schedule: Schedule): number {
+    if (schedule.kind === 'twap' && schedule.completedRuns === schedule.runs - 1) {
+      return Number((schedule.amount - schedule.spent).toFixed(9));
+    }
+    return schedule.chunkAmount;
+  }
+
+  // 下一次买入的间隔（按比例随机浮动）
+  private nextDelay(schedule: Schedule): number {
+    const base = schedule.intervalMinutes * 60 * 1000;
+    const jitter = base * (schedule.jitterPct / 100) * (Math.random() * 2 - 1);
+    return Math.max(MIN_INTERVAL_MINUTES * 60 * 1000, Math.round(base + jitter));
+  }
+
+  private async find(id: string): Promise<Schedule> {
+    const schedule = (await this.store.load()).find((s) => s.id === id);
+    if (!schedule) {
+      throw new Error('计划不存在');
+    }
+    return schedule;
+  }
+
+  private record(schedule: Schedule, run: ScheduleRun) {
+    schedule.history = [...schedule.history, run].slice(-MAX_RUNS_PER_SCHEDULE);
+    schedule.updatedAt = Date.now();
+  }
+
+  private pauseWith(schedule: Schedule, reason: string) {
+    schedule.status = 'paused';
+    schedule.reason = reason;
+    schedule.updatedAt = Date.now();
+    console.log('[Schedules] 计划暂停:', schedule.id, reason);
+  }
+
+  private finish(schedule: Schedule, status: Schedule['status'], reason: string) {
+    schedule.status = status;
+    schedule.reason = reason;
+    schedule.updatedAt = Date.now();
+    console.log('[Schedules] 计划结束:', schedule.id, reason);
+  }
+}
@@ -0,0 +1,97 @@
+import { SOL_MINT } from '../shared/types';
+
+// 从已确认交易的余额变化解析 SOL <-> Token 兑换（不依赖具体的 DEX 或聚合器）
+
+// 解析出的兑换（数量均为正数，SOL 为 lamports，Token 为原始数量）
+export interface ParsedSwap {
+  signature: string;
+  timestamp: number;
+  ca: string;
+  side: 'buy' | 'sell';
+  decimals: number;
+  lamports: number; // 买入花费或卖出获得的 SOL（不含交易手续费和 Token 账户租金）
+  rawTokens: number; // 买入获得或卖出的 Token
+  fee: number; // 交易手续费（lamports，含优先费，仅当钱包为付费方时）
+  rent: number; // 新建 Token 账户的租金减去关闭账户退回的租金（lamports）
+  postRawBalance: number; // 交易后钱包持有的该 Token 数量（原始数量）
+}
+
+// 累加钱包名下各 Token 的余额变化（同一 Mint 可能有多个账户）
+function tokenDeltas(meta: any, owner: string): Map<string, { raw: bigint; decimals: number }> {
+  const deltas = new Map<string, { raw: bigint; decimals: number }>();
+  const apply = (balances: any[] | undefined, sign: bigint) => {
+    for (const balance of balances || []) {
+      if (balance.owner !== owner) continue;
+      const entry = deltas.get(balance.mint) || { raw: 0n, decimals: balance.uiTokenAmount.decimals };
+      entry.raw += sign * BigInt(balance.uiTokenAmount.amount || '0');
+      deltas.set(balance.mint, entry);
+    }
+  };
+  apply(meta.preTokenBalances, -1n);
+  apply(meta.postTokenBalances, 1n);
+  return deltas;
+}
+
+// 钱包名下新建和关闭的 Token 账户的租金（新建为正，关闭退回为负）
+// wSOL 账户的 lamports 包含包装的 SOL，需扣除
+function accountRent(meta: any, owner: string): number {
+  const owned = (balances: any[] | undefined) =>
+    new Map<number, any>((balances || []).filter((b) => b.owner === owner).map((b) => [b.accountIndex, b]));
+  const rentOf = (balance: any, lamports: number) =>
+    lamports - (balance.mint === SOL_MINT ? Number(balance.uiTokenAmount.amount || '0') : 0);
+  const before = owned(meta.preTokenBalances);
+  const after = owned(meta.postTokenBalances);
+  let rent = 0;
+  after.forEach((balance, i) => {
+    if (!before.has(i)) rent += rentOf(balance, meta.postBalances[i]);
+  });
+  before.forEach((balance, i) => {
+    if (!after.has(i)) rent -= rentOf(balance, meta.preBalances[i]);
+  });
+  return rent;
+}
+
+// 解析钱包在交易中的 SOL <-> Token 兑换，不是兑换（转账、Token 之间兑换、失败交易等）时返回 null
+export function parseSwap(tx: any, owner: string, signature: string): ParsedSwap | null {
+  const meta = tx?.meta;
+  if (!meta || meta.err) return null;
+
+  const accountKeys: any[] = tx.transaction?.message?.accountKeys || [];
+  const index = accountKeys.findIndex((key) => (typeof key === 'string' ? key : key.pubkey) === owner);
+  if (index < 0) return null;
+
+  // SOL 变化（包括 wSOL 账户），付费方需加回手续费，并扣除 Token 账户租金
+  const fee = index === 0 ? Number(meta.fee || 0) : 0;
+  const rent = accountRent(meta, owner);
+  const deltas = tokenDeltas(meta, owner);
+  let lamports = BigInt(meta.postBalances[index] - meta.preBalances[index]) + BigInt(fee) + BigInt(rent);
+  const wsol = deltas.get(SOL_MINT);
+  if (wsol) {
+    lamports += wsol.raw;
+    deltas.delete(SOL_MINT);
+  }
+
+  // 只处理单个 Token 与 SOL 方向相反的变化
+  const changed = [...deltas.entries()].filter(([, delta]) => delta.raw !== 0n);
+  if (changed.length !== 1 || lamports === 0n) return null;
+  const [ca, delta] = changed[0];
+  const side = delta.raw > 0n ? 'buy' : 'sell';
+  if ((side === 'buy') !== (lamports < 0n)) return null;
+
+  const postRawBalance = (meta.postTokenBalances || [])
+    .filter((balance: any) => balance.owner === owner && balance.mint === ca)
+    .reduce((sum: number, balance: any) => sum + Number(balance.uiTokenAmount.amount || '0'), 0);
+
+  return {
+    signature,
+    timestamp: (tx.blockTime || 0) * 1000,
+    ca,
+    side,
+    decimals: delta.decimals,
+    lamports: Math.abs(Number(lamports)),
+    rawTokens: Math.abs(Number(delta.raw)),
+    fee,
+    rent,
+    postRawBalance,
+  };
+}
@@ -0,0 +1,77 @@
+import { describeTradeResult } from '../shared/orders';
+import { TradeResult } from '../shared/types';
+import { ChainExecutionError, ConfirmOutcome } from './helius';
+
+// 快速发送的交易确认：交易发送后立即返回给面板，由这里在后台继续确认
+// 确认结果通过交易进度推送（面板）和系统通知报告，交易记录由 background 的处理流程更新
+
+// 已发送、等待确认的交易
+export interface InFlightTrade {
+  signature: string;
+  side: 'buy' | 'sell';
+  ca: string;
+  owner: string;
+  label: string; // 交易说明，例如 "买入 0.5 SOL"
+  sentAt: number;
+}
+
+// 确认和确认后的处理（由 background 提供，复用交易成功/失败后的记录流程）
+export interface SettleHandlers {
+  confirm(): Promise<ConfirmOutcome>;
+  onConfirmed(): Promise<TradeResult>;
+  onFailed(error: Error): Promise<void>; // 链上执行失败时为 ChainExecutionError
+}
+
+const NOTIFICATION_PREFIX = 'sol-sniper-trade:'; // 通知 ID 前缀，后接交易签名
+
+export class ConfirmationTracker {
+  // 点击通知打开交易详情，需在 Service Worker 顶层调用
+  listen() {
+    chrome.notifications.onClicked.addListener((id) => {
+      if (id.startsWith(NOTIFICATION_PREFIX)) {
+        chrome.tabs.create({ url: `https://solscan.io/tx/${id.slice(NOTIFICATION_PREFIX.length)}` });
+        chrome.notifications.clear(id);
+      }
+    });
+  }
+
+  // 开始跟踪（不等待确认结果）
+  track(trade: InFlightTrade, handlers: SettleHandlers) {
+    console.log('[Tracker] 跟踪交易:', trade.label, trade.signature);
+    void this.settle(trade, handlers);
+  }
+
+  private async settle(trade: InFlightTrade, handlers: SettleHandlers) {
+    try {
+      let outcome: ConfirmOutcome;
+      try {
+        outcome = await handlers.confirm();
+      } catch (error: any) {
+        outcome = { confirmed: false, error: error.message || '确认失败' };
+      }
+
+      if (outcome.confirmed) {
+        const result = await handlers.onConfirmed();
+        console.log('[Tracker] ✓ 交易已确认:', trade.signature);
+        this.notify(trade, `${trade.label} 成功`, describeTradeResult(result));
+      } else {
+        const message = `${trade.side === 'buy' ? '买入' : '卖出'}失败: ${outcome.error || '交易未确认'}`;
+        const error = outcome.failed ? new ChainExecutionError(message) : new Error(message);
+        console.warn('[Tracker] ✗ 交易失败:', trade.signature, error.message);
+        await handlers.onFailed(error);
+        this.notify(trade, `${trade.label} 失败`, error.message);
+      }
+    } catch (error: any) {
+      console.error('[Tracker] 处理确认结果失败:', trade.signature, error.message || error);
+    }
+  }
+
+  private notify(trade: InFlightTrade, title: string, message: string) {
+    chrome.notifications.create(`${NOTIFICATION_PREFIX}${trade.signature}`, {
+      type: 'basic',
+      iconUrl: chrome.runtime.getURL('assets/icon128.png'),
+      title,
+      message: `${trade.ca.slice(0, 8)}... · ${message}`,
+    });
+  }
+}
@@ -1,47 +1,143 @@
 import { Keypair, Transaction, VersionedTransaction } from '@solana/web3.js';
 import bs58 from 'bs58';
 import { Buffer } from 'buffer';
-import { encrypt, decrypt } from '../shared/crypto';
-import { saveEncryptedKey, getEncryptedKey, clearWallet } from '../shared/storage';
+import { encrypt, decrypt, needsReencrypt } from '../shared/crypto';
+import {
+  getWallets,
+  saveWallets,
+  getActiveWalletAddress,
+  saveActiveWalletAddress,
+  clearWallets,
+  saveWalletSession,
+  getWalletSession,
+  clearWalletSession,
+} from '../shared/storage';
+import { StoredWallet, BackupWallet, NewWalletReveal } from '../shared/types';
+import { TransactionInspector } from './inspector';
 
+// 旧版本使用的固定密码，仅用于迁移已存储的钱包
+const LEGACY_DEFAULT_PASSWORD = 'sol-sniper-default-password';
+const MIN_PASSWORD_LENGTH = 8;
+// 新钱包备份校验需要输入的字符数
+const BACKUP_CHALLENGE_SIZE = 3;
+
+// 自动锁定闹钟名称（chrome.alarms 在 Service Worker 重启后依然有效）
+export const AUTO_LOCK_ALARM = 'sol-sniper-auto-lock';
+
+// 多钱包管理：所有钱包使用同一个密码加密，一次解锁全部钱包
 export class WalletManager {
-  private keypair: Keypair | null = null;
-  private address: string = '';
-  private lockTimeout: ReturnType<typeof setTimeout> | null = null;
+  private wallets: StoredWallet[] = [];
+  private keypairs: Map<string, Keypair> = new Map();
+  private activeAddress: string = '';
   private autoLockMs: number = 30 * 60 * 1000; // 30分钟
+  private lockAt: number = 0; // 自动锁定时间戳，0 表示不自动锁定
+  private needsMigration: boolean = false; // 是否仍使用旧版默认密码加密
+  private backupChallenges: Map<string, number[]> = new Map(); // 新钱包备份校验位置
+  private inspector: TransactionInspector | null = null; // 签名前交易检查
+  private lockListeners: (() => void)[] = [];
 
   get isLocked(): boolean {
-    // 锁定功能已完全禁用，钱包永远不锁定
-    return false;
+    return this.keypairs.size === 0;
   }
 
+  // 当前使用的钱包地址
   get publicKey(): string {
-    return this.address;
+    return this.activeAddress;
   }
 
-  // 设置自动锁定时间（已禁用）
+  get hasWallets(): boolean {
+    return this.wallets.length > 0;
+  }
+
+  // 所有钱包（不含私钥）
+  listWallets(): { address: string; label: string; needsBackup: boolean }[] {
+    return this.wallets.map(({ address, label, needsBackup }) => ({
+      address,
+      label,
+      needsBackup: !!needsBackup,
+    }));
+  }
+
+  // 设置签名前的交易检查器
+  setInspector(inspector: TransactionInspector | null) {
+    this.inspector = inspector;
+  }
+
+  // 设置自动锁定时间（0 表示不自动锁定）
   setAutoLock(minutes: number) {
-    // 自动锁定功能已禁用
-    this.autoLockMs = 0;
-    this.resetLockTimer();
+    this.autoLockMs = Math.max(0, minutes || 0) * 60 * 1000;
+    if (!this.isLocked) {
+      this.resetLockTimer();
+    }
   }
 
-  // 重置锁定计时器
+  // 重置锁定计时器，并持久化会话以便 Service Worker 重启后恢复
   private resetLockTimer() {
-    if (this.lockTimeout) {
-      clearTimeout(this.lockTimeout);
-      this.lockTimeout = null;
+    if (this.isLocked) return;
+
+    this.lockAt = this.autoLockMs > 0 ? Date.now() + this.autoLockMs : 0;
+    if (this.lockAt > 0) {
+      chrome.alarms.create(AUTO_LOCK_ALARM, { when: this.lockAt });
+    } else {
+      chrome.alarms.clear(AUTO_LOCK_ALARM);
+    }
+
+    const secretKeys: Record<string, string> = {};
+    this.keypairs.forEach((keypair, address) => {
+      secretKeys[address] = bs58.encode(keypair.secretKey);
+    });
+    saveWalletSession({ secretKeys, lockAt: this.lockAt }).catch((error) => {
+      console.error('[Wallet] 保存解锁会话失败:', error);
+    });
+  }
+
+  // 检查是否已超过自动锁定时间（闹钟最小粒度为30秒，这里做兜底检查）
+  private checkAutoLock() {
+    if (!this.isLocked && this.lockAt > 0 && Date.now() >= this.lockAt) {
+      console.log('[Wallet] 已超过自动锁定时间，锁定钱包');
+      this.lock();
+    }
+  }
+
+  // 校验密码强度
+  private validatePassword(password: string) {
+    if (!password || password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`密码至少需要${MIN_PASSWORD_LENGTH}个字符`);
     }
-    // 自动锁定功能已禁用，不再设置定时器
   }
 
-  // 导入私钥并加密存储（使用默认密码）
-  async importKey(privateKeyBase58: string, password?: string): Promise<string> {
+  // 校验密码是否与已有钱包一致（所有钱包共用一个密码）
+  private async verifyVaultPassword(password: string) {
+    if (this.wallets.length === 0) return;
+    if (this.needsMigration) {
+      throw new Error('请先解锁并设置钱包密码');
+    }
+    try {
+      await decrypt(this.wallets[0].encryptedKey, password);
+    } catch {
+      throw new Error('密码错误');
+    }
+  }
+
+  // 获取钱包名称
+  getLabel(address: string): string {
+    return this.findWallet(address).label;
+  }
+
+  private findWallet(address: string): StoredWallet {
+    const stored = this.wallets.find((w) => w.address === address);
+    if (!stored) throw new Error('未找到钱包');
+    return stored;
+  }
+
+  // 导入私钥并使用用户密码加密存储
+  async importKey(privateKeyBase58: string, password: string, label?: string): Promise<string> {
     try {
       // 验证私钥格式
       if (!privateKeyBase58 || privateKeyBase58.trim().length === 0) {
         throw new Error('私钥不能为空');
       }
+      this.validatePassword(password);
 
       const secretKey = bs58.decode(privateKeyBase58.trim());
       
@@ -53,17 +149,31 @@ export class WalletManager {
       const keypair = Keypair.fromSecretKey(secretKey);
       const address = keypair.publicKey.toBase58();
 
-      // 使用默认密码（如果未提供）
-      const defaultPassword = password || 'sol-sniper-default-password';
-      
+      if (this.wallets.some((w) => w.address === address)) {
+        throw new Error('该钱包已存在');
+      }
+      await this.verifyVaultPassword(password);
+
       // 加密存储
-      const encrypted = await encrypt(privateKeyBase58.trim(), defaultPassword);
-      await saveEncryptedKey(encrypted, address);
+      const encrypted = await encrypt(privateKeyBase58.trim(), password);
+      this.wallets.push({
+        address,
+        label: label?.trim() || `钱包 ${this.wallets.length + 1}`,
+        encryptedKey: encrypted,
+        createdAt: Date.now(),
+      });
+      await saveWallets(this.wallets);
 
-      // 解锁钱包
-      this.keypair = keypair;
-      this.address = address;
-      this.resetLockTimer();
+      // 新导入的钱包设为当前钱包
+      this.keypairs.set(address, keypair);
+      await this.setActive(address);
+
+      // 钱包已锁定时，用同一密码解锁其余钱包
+      if (this.keypairs.size < this.wallets.length) {
+        await this.unlock(password);
+      } else {
+        this.resetLockTimer();
+      }
 
       console.log('[Wallet] 钱包导入成功:', address);
       return address;
@@ -77,128 +187,437 @@ export class WalletManager {
     }
   }
 
-  // 解锁钱包
-  async unlock(password: string): Promise<boolean> {
-    const stored = await getEncryptedKey();
-    if (!stored) throw new Error('未找到钱包');
+  // 批量导入钱包（助记词派生的账户），已存在的钱包跳过，第一个新钱包设为当前钱包
+  async importKeypairs(
+    entries: { keypair: Keypair; label: string; needsBackup?: boolean }[],
+    password: string
+  ): Promise<string[]> {
+    this.validatePassword(password);
 
-    try {
-      const privateKey = await decrypt(stored.encryptedKey, password);
-      const secretKey = bs58.decode(privateKey);
-      this.keypair = Keypair.fromSecretKey(secretKey);
-      this.address = stored.address;
+    const fresh = entries.filter(
+      ({ keypair }) => !this.wallets.some((w) => w.address === keypair.publicKey.toBase58())
+    );
+    if (fresh.length === 0) {
+      throw new Error('所选钱包均已存在');
+    }
+    await this.verifyVaultPassword(password);
+
+    const addresses: string[] = [];
+    for (const { keypair, label, needsBackup } of fresh) {
+      const address = keypair.publicKey.toBase58();
+      this.wallets.push({
+        address,
+        label: label.trim() || `钱包 ${this.wallets.length + 1}`,
+        encryptedKey: await encrypt(bs58.encode(keypair.secretKey), password),
+        createdAt: Date.now(),
+        ...(needsBackup ? { needsBackup } : {}),
+      });
+      this.keypairs.set(address, keypair);
+      addresses.push(address);
+    }
+    await saveWallets(this.wallets);
+    await this.setActive(addresses[0]);
+
+    // 钱包已锁定时，用同一密码解锁其余钱包
+    if (this.keypairs.size < this.wallets.length) {
+      await this.unlock(password);
+    } else {
       this.resetLockTimer();
-      return true;
-    } catch {
-      throw new Error('密码错误');
     }
+
+    console.log('[Wallet] 批量导入钱包成功:', addresses.length);
+    return addresses;
+  }
+
+  // 生成新钱包，确认备份前不能用于交易
+  async createWallet(password: string, label?: string): Promise<string> {
+    const [address] = await this.importKeypairs(
+      [{ keypair: Keypair.generate(), label: label || '', needsBackup: true }],
+      password
+    );
+    console.log('[Wallet] 新钱包已生成，等待备份确认:', address);
+    return address;
+  }
+
+  // 展示待备份钱包的私钥，并生成校验位置
+  revealNewWallet(address: string): NewWalletReveal {
+    this.checkAutoLock();
+    const stored = this.findWallet(address);
+    if (!stored.needsBackup) {
+      throw new Error('该钱包已完成备份确认');
+    }
+    const keypair = this.keypairs.get(address);
+    if (!keypair) {
+      throw new Error('钱包已锁定，请先解锁');
+    }
+
+    const secretKey = bs58.encode(keypair.secretKey);
+    const positions = new Set<number>();
+    while (positions.size < BACKUP_CHALLENGE_SIZE) {
+      positions.add(crypto.getRandomValues(new Uint32Array(1))[0] % secretKey.length);
+    }
+    const sorted = [...positions].sort((a, b) => a - b);
+    this.backupChallenges.set(address, sorted);
+
+    return { address, secretKey, positions: sorted.map((p) => p + 1) };
+  }
+
+  // 校验用户输入的私钥字符，通过后钱包可用于交易
+  async confirmBackup(address: string, answers: string[]): Promise<void> {
+    this.checkAutoLock();
+    const stored = this.findWallet(address);
+    if (!stored.needsBackup) return;
+
+    const positions = this.backupChallenges.get(address);
+    const keypair = this.keypairs.get(address);
+    if (!positions || !keypair) {
+      throw new Error('请先查看并保存私钥');
+    }
+
+    const secretKey = bs58.encode(keypair.secretKey);
+    const matched =
+      Array.isArray(answers) &&
+      answers.length === positions.length &&
+      positions.every((p, i) => (answers[i] || '').trim() === secretKey[p]);
+    if (!matched) {
+      throw new Error('校验失败，请核对已保存的私钥');
+    }
+
+    delete stored.needsBackup;
+    this.backupChallenges.delete(address);
+    await saveWallets(this.wallets);
+    console.log('[Wallet] 新钱包备份已确认:', address);
+  }
+
+  // 钱包是否已导入
+  hasWallet(address: string): boolean {
+    return this.wallets.some((w) => w.address === address);
+  }
+
+  // 解锁全部钱包
+  // 对于旧版默认密码加密的钱包，传入的密码将作为新密码重新加密
+  async unlock(password: string): Promise<boolean> {
+    if (this.wallets.length === 0) throw new Error('未找到钱包');
+    if (this.needsMigration) {
+      this.validatePassword(password);
+    }
+
+    const keypairs = new Map<string, Keypair>();
+    let migrated = false;
+    let upgraded = false;
+    for (const stored of this.wallets) {
+      let privateKey: string;
+      try {
+        privateKey = await decrypt(stored.encryptedKey, password);
+        // 旧版加密格式：使用随机盐和当前 KDF 参数重新加密
+        if (needsReencrypt(stored.encryptedKey)) {
+          stored.encryptedKey = await encrypt(privateKey, password);
+          upgraded = true;
+        }
+      } catch {
+        if (!this.needsMigration) throw new Error('密码错误');
+        try {
+          privateKey = await decrypt(stored.encryptedKey, LEGACY_DEFAULT_PASSWORD);
+        } catch {
+          throw new Error('密码错误');
+        }
+        stored.encryptedKey = await encrypt(privateKey, password);
+        migrated = true;
+      }
+      keypairs.set(stored.address, Keypair.fromSecretKey(bs58.decode(privateKey)));
+    }
+
+    if (migrated || upgraded) {
+      await saveWallets(this.wallets);
+      console.log(migrated ? '[Wallet] 旧版钱包已使用新密码重新加密' : '[Wallet] 钱包已升级为新版加密格式');
+    }
+    this.needsMigration = false;
+    this.keypairs = keypairs;
+    this.resetLockTimer();
+    console.log('[Wallet] 钱包已解锁，数量:', keypairs.size);
+    return true;
+  }
+
+  // 导出所有钱包私钥（用于备份，需先解锁）
+  exportSecrets(): BackupWallet[] {
+    this.checkAutoLock();
+    if (this.isLocked) throw new Error('钱包已锁定，请先解锁');
+    return this.wallets.map((stored) => {
+      const keypair = this.keypairs.get(stored.address);
+      if (!keypair) throw new Error('钱包未解锁: ' + stored.label);
+      return {
+        address: stored.address,
+        label: stored.label,
+        secretKey: bs58.encode(keypair.secretKey),
+        createdAt: stored.createdAt,
+      };
+    });
+  }
+
+  // 从备份恢复钱包
+  // replace 为 true 时替换现有钱包，password 作为新的钱包密码；否则合并，password 需与现有钱包一致
+  // 返回新增的钱包数量
+  async restoreWallets(entries: BackupWallet[], password: string, replace: boolean): Promise<number> {
+    this.validatePassword(password);
+
+    // 先校验全部私钥，避免部分恢复
+    for (const entry of entries) {
+      const keypair = Keypair.fromSecretKey(bs58.decode(entry.secretKey));
+      if (keypair.publicKey.toBase58() !== entry.address) {
+        throw new Error('备份中的钱包私钥与地址不匹配: ' + entry.address);
+      }
+    }
+
+    if (!replace) {
+      await this.verifyVaultPassword(password);
+    }
+
+    // 全部加密完成后一次保存，替换时加密失败不会丢失现有钱包
+    const wallets = replace ? [] : [...this.wallets];
+    let added = 0;
+    for (const entry of entries) {
+      if (wallets.some((w) => w.address === entry.address)) continue;
+      wallets.push({
+        address: entry.address,
+        label: entry.label || `钱包 ${wallets.length + 1}`,
+        encryptedKey: await encrypt(entry.secretKey, password),
+        createdAt: entry.createdAt || Date.now(),
+      });
+      added++;
+    }
+
+    if (wallets.length === 0) {
+      if (replace) await this.removeAll();
+      return 0;
+    }
+    if (replace) {
+      this.lock();
+      this.activeAddress = '';
+      this.needsMigration = false;
+    }
+    this.wallets = wallets;
+    await saveWallets(wallets);
+    if (!this.activeAddress) {
+      await this.setActive(wallets[0].address);
+    }
+    // 用同一密码解锁全部钱包
+    await this.unlock(password);
+    return added;
   }
 
   // 锁定钱包
   lock() {
-    this.keypair = null;
-    if (this.lockTimeout) {
-      clearTimeout(this.lockTimeout);
-      this.lockTimeout = null;
+    this.keypairs.clear();
+    this.lockAt = 0;
+    chrome.alarms.clear(AUTO_LOCK_ALARM);
+    clearWalletSession().catch((error) => {
+      console.error('[Wallet] 清除解锁会话失败:', error);
+    });
+    this.lockListeners.forEach((listener) => listener());
+  }
+
+  // 切换当前使用的钱包
+  async setActive(address: string): Promise<void> {
+    this.findWallet(address);
+    this.activeAddress = address;
+    await saveActiveWalletAddress(address);
+  }
+
+  // 修改钱包名称
+  async rename(address: string, label: string): Promise<void> {
+    const trimmed = (label || '').trim();
+    if (!trimmed) throw new Error('名称不能为空');
+    this.findWallet(address).label = trimmed;
+    await saveWallets(this.wallets);
+  }
+
+  // 调整钱包顺序（addresses 为新的完整顺序）
+  async reorder(addresses: string[]): Promise<void> {
+    if (
+      addresses.length !== this.wallets.length ||
+      !this.wallets.every((w) => addresses.includes(w.address))
+    ) {
+      throw new Error('钱包顺序无效');
     }
+    this.wallets = addresses.map((address) => this.findWallet(address));
+    await saveWallets(this.wallets);
   }
 
-  // 删除钱包
-  async remove(): Promise<void> {
+  // 删除单个钱包
+  async remove(address: string): Promise<void> {
+    this.findWallet(address);
+    this.wallets = this.wallets.filter((w) => w.address !== address);
+    this.keypairs.delete(address);
+
+    if (this.wallets.length === 0) {
+      await this.removeAll();
+      return;
+    }
+
+    await saveWallets(this.wallets);
+    if (this.activeAddress === address) {
+      await this.setActive(this.wallets[0].address);
+    }
+    this.resetLockTimer();
+  }
+
+  // 删除全部钱包
+  async removeAll(): Promise<void> {
     this.lock();
-    this.address = '';
-    await clearWallet();
+    this.wallets = [];
+    this.activeAddress = '';
+    this.needsMigration = false;
+    await clearWallets();
   }
 
-  // 检查是否有存储的钱包，如果有则自动解锁
+  // 加载已存储的钱包，并识别仍使用旧版默认密码加密的钱包
   async hasStoredWallet(): Promise<boolean> {
-    const stored = await getEncryptedKey();
-    if (stored) {
-      this.address = stored.address;
-      // 自动解锁钱包（使用默认密码或存储的密码）
-      // 注意：这里需要密码，但为了简化，我们假设钱包已经导入并解锁
-      // 实际使用时，钱包导入后会自动解锁
-      return true;
+    this.wallets = await getWallets();
+    if (this.wallets.length === 0) return false;
+
+    const active = await getActiveWalletAddress();
+    this.activeAddress = this.wallets.some((w) => w.address === active)
+      ? active
+      : this.wallets[0].address;
+
+    // 默认密码只在旧版加密格式中使用，新版信封无需尝试
+    this.needsMigration = false;
+    if (needsReencrypt(this.wallets[0].encryptedKey)) {
+      try {
+        await decrypt(this.wallets[0].encryptedKey, LEGACY_DEFAULT_PASSWORD);
+        this.needsMigration = true;
+        console.warn('[Wallet] 检测到旧版默认密码加密的钱包，需要设置新密码');
+      } catch {
+        // 已使用用户密码加密
+      }
     }
-    return false;
+    return true;
   }
 
-  // 自动解锁钱包（在初始化时调用，使用默认密码）
-  async autoUnlock(): Promise<boolean> {
-    const stored = await getEncryptedKey();
-    if (!stored) return false;
+  // 从会话存储恢复解锁状态（Service Worker 重启后调用）
+  async restoreSession(): Promise<boolean> {
+    const session = await getWalletSession();
+    if (this.wallets.length === 0 || !session?.secretKeys) return false;
+
+    if (session.lockAt > 0 && Date.now() >= session.lockAt) {
+      console.log('[Wallet] 会话已过期，保持锁定');
+      await clearWalletSession();
+      return false;
+    }
 
     try {
-      const defaultPassword = 'sol-sniper-default-password';
-      const privateKey = await decrypt(stored.encryptedKey, defaultPassword);
-      const secretKey = bs58.decode(privateKey);
-      this.keypair = Keypair.fromSecretKey(secretKey);
-      this.address = stored.address;
+      const keypairs = new Map<string, Keypair>();
+      for (const stored of this.wallets) {
+        const secretKey = session.secretKeys[stored.address];
+        if (!secretKey) throw new Error('会话缺少钱包: ' + stored.address);
+        const keypair = Keypair.fromSecretKey(bs58.decode(secretKey));
+        if (keypair.publicKey.toBase58() !== stored.address) {
+          throw new Error('会话钱包地址不匹配');
+        }
+        keypairs.set(stored.address, keypair);
+      }
+      this.keypairs = keypairs;
+      this.lockAt = session.lockAt;
       return true;
-    } catch {
+    } catch (error: any) {
+      console.warn('[Wallet] 恢复会话失败:', error.message || error);
+      await clearWalletSession();
       return false;
     }
   }
 
   // 签名交易 (支持legacy和versioned)
   // 返回 base58 编码的字符串（Solana RPC 需要 base58）
-  signTransaction(txBase64: string): string {
+  // address 指定签名钱包，默认使用当前钱包
+  async signTransaction(txBase64: string, address: string = this.activeAddress): Promise<string> {
+    return bs58.encode(await this.sign(txBase64, address, true));
+  }
+
+  // 预签名预加载的交易，返回序列化后的字节（调用方丢弃时可清零）
+  // 后台定时预加载不是用户操作，不重置自动锁定计时
+  async presignTransaction(txBase64: string, address: string = this.activeAddress): Promise<Uint8Array> {
+    return this.sign(txBase64, address, false);
+  }
+
+  // 使用预签名的交易前检查钱包仍处于解锁状态（含已过自动锁定时间的情况），并重置锁定计时
+  assertUnlocked(address: string = this.activeAddress) {
+    this.checkAutoLock();
+    if (!this.keypairs.has(address)) {
+      throw new Error('钱包已锁定，请先解锁');
+    }
+    this.resetLockTimer();
+  }
+
+  // 锁定时的回调（例如清除预签名的交易）
+  onLock(listener: () => void) {
+    this.lockListeners.push(listener);
+  }
+
+  private async sign(txBase64: string, address: string, resetTimer: boolean): Promise<Uint8Array> {
     const startTime = performance.now();
-    if (!this.keypair) {
-      // 如果keypair为空，尝试从存储中恢复
-      throw new Error('钱包未初始化，请重新导入钱包');
+    this.checkAutoLock();
+    if (!address) {
+      throw new Error('钱包未初始化，请先导入钱包');
+    }
+    if (this.findWallet(address).needsBackup) {
+      throw new Error('新钱包尚未完成备份确认，请在设置页完成备份');
+    }
+    const keypair = this.keypairs.get(address);
+    if (!keypair) {
+      throw new Error('钱包已锁定，请先解锁');
+    }
+    if (!this.inspector) {
+      throw new Error('交易检查未初始化，请先配置 Helius API Key');
+    }
+    if (resetTimer) {
+      this.resetLockTimer();
     }
 
-    try {
-      console.log('[Wallet] → 开始签名交易，原始数据长度:', txBase64.length, '字符');
-      const txBuffer = Buffer.from(txBase64, 'base64');
+    console.log('[Wallet] → 开始签名交易，原始数据长度:', txBase64.length, '字符');
+    const txBuffer = Buffer.from(txBase64, 'base64');
 
+    // 解析交易（优先 VersionedTransaction，失败则回退到 Legacy Transaction）
+    let tx: VersionedTransaction | Transaction;
+    const parseStart = performance.now();
+    try {
+      tx = VersionedTransaction.deserialize(txBuffer);
+      console.log('[Wallet]   解析为 VersionedTransaction');
+    } catch {
+      console.log('[Wallet] VersionedTransaction 解析失败，尝试 Legacy Transaction');
       try {
-        // 尝试作为 VersionedTransaction 解析
-        const parseStart = performance.now();
-        const versionedTx = VersionedTransaction.deserialize(txBuffer);
-        const parseTime = performance.now() - parseStart;
-        console.log('[Wallet]   解析为 VersionedTransaction，耗时:', parseTime.toFixed(2), 'ms');
-        
-        const signStart = performance.now();
-        versionedTx.sign([this.keypair]);
-        const signTime = performance.now() - signStart;
-        console.log('[Wallet]   签名完成，耗时:', signTime.toFixed(2), 'ms');
-        
-        const serializeStart = performance.now();
-        const serialized = versionedTx.serialize();
-        const signedTx = bs58.encode(serialized);
-        const serializeTime = performance.now() - serializeStart;
-        const totalTime = performance.now() - startTime;
-        
-        console.log('[Wallet] ✓ 交易签名成功 (VersionedTransaction)');
-        console.log('[Wallet]   性能: 解析', parseTime.toFixed(2), 'ms, 签名', signTime.toFixed(2), 'ms, 序列化', serializeTime.toFixed(2), 'ms, 总计', totalTime.toFixed(2), 'ms');
-        console.log('[Wallet]   签名后长度:', signedTx.length, '字符');
-        return signedTx;
-      } catch (versionedError) {
-        console.log('[Wallet] VersionedTransaction 解析失败，尝试 Legacy Transaction');
-        // 回退到 Legacy Transaction
-        const parseStart = performance.now();
-        const legacyTx = Transaction.from(txBuffer);
-        const parseTime = performance.now() - parseStart;
-        console.log('[Wallet]   解析为 Legacy Transaction，耗时:', parseTime.toFixed(2), 'ms');
-        
-        const signStart = performance.now();
-        legacyTx.sign(this.keypair);
-        const signTime = performance.now() - signStart;
-        console.log('[Wallet]   签名完成，耗时:', signTime.toFixed(2), 'ms');
-        
-        const serializeStart = performance.now();
-        const serialized = legacyTx.serialize();
-        const signedTx = bs58.encode(serialized);
-        const serializeTime = performance.now() - serializeStart;
-        const totalTime = performance.now() - startTime;
-        
-        console.log('[Wallet] ✓ 交易签名成功 (Legacy Transaction)');
-        console.log('[Wallet]   性能: 解析', parseTime.toFixed(2), 'ms, 签名', signTime.toFixed(2), 'ms, 序列化', serializeTime.toFixed(2), 'ms, 总计', totalTime.toFixed(2), 'ms');
-        console.log('[Wallet]   签名后长度:', signedTx.length, '字符');
-        return signedTx;
+        tx = Transaction.from(txBuffer);
+        console.log('[Wallet]   解析为 Legacy Transaction');
+      } catch (error: any) {
+        console.error('[Wallet] 交易解析失败:', error);
+        throw new Error(`签名交易失败: ${error.message || error.toString()}`);
       }
+    }
+    const parseTime = performance.now() - parseStart;
+
+    // 签名前检查交易内容，拒绝未授权的程序和转账
+    const inspectStart = performance.now();
+    await this.inspector.inspect(tx, address);
+    const inspectTime = performance.now() - inspectStart;
+
+    try {
+      const signStart = performance.now();
+      if (tx instanceof VersionedTransaction) {
+        tx.sign([keypair]);
+      } else {
+        tx.sign(keypair);
+      }
+      const signTime = performance.now() - signStart;
+      console.log('[Wallet]   签名完成，耗时:', signTime.toFixed(2), 'ms');
+
+      const serializeStart = performance.now();
+      const signedTx = tx.serialize();
+      const serializeTime = performance.now() - serializeStart;
+      const totalTime = performance.now() - startTime;
+
+      console.log('[Wallet] ✓ 交易签名成功');
+      console.log('[Wallet]   性能: 解析', parseTime.toFixed(2), 'ms, 检查', inspectTime.toFixed(2), 'ms, 签名', signTime.toFixed(2), 'ms, 序列化', serializeTime.toFixed(2), 'ms, 总计', totalTime.toFixed(2), 'ms');
+      console.log('[Wallet]   签名后长度:', signedTx.length, '字节');
+      return signedTx;
     } catch (error: any) {
       const totalTime = performance.now() - startTime;
       console.error('[Wallet] 签名交易失败 (耗时:', totalTime.toFixed(2), 'ms):', error);
@@ -208,9 +627,11 @@ export class WalletManager {
 
   // 获取状态
   getState() {
+    this.checkAutoLock();
     return {
-      address: this.address,
+      address: this.activeAddress,
       isLocked: this.isLocked,
+      needsMigration: this.needsMigration,
     };
   }
 }
@@ -0,0 +1,120 @@
+// 后台定时任务（挂单、止盈止损、分批买入）的公共部分：
+// 所有任务共用一个 chrome.alarms 闹钟（Service Worker 重启后依然有效），时间为最早需要检查的任务
+// 任务数据只从存储加载一次，之后在内存中修改并保存
+
+export const WATCH_ALARM = 'sol-sniper-watch';
+const MIN_ALARM_DELAY_MS = 30 * 1000; // chrome.alarms 最短间隔 30 秒
+
+// 定时任务
+export interface WatchTask {
+  readonly label: string; // 日志中的任务名称
+  nextRunAt(): Promise<number | null>; // 下次需要检查的时间（0 表示每次闹钟都检查），没有等待中的项目时为空
+  evaluate(): Promise<void>;
+}
+
+export class TaskWatcher {
+  private tasks: WatchTask[] = [];
+  private running = false;
+  private isReady: () => boolean;
+
+  // isReady：钱包已解锁且客户端已配置
+  constructor(isReady: () => boolean) {
+    this.isReady = isReady;
+  }
+
+  add(task: WatchTask) {
+    this.tasks.push(task);
+  }
+
+  // 按最早需要检查的任务设置闹钟（已有更早的闹钟时保留），没有等待中的任务时清除闹钟
+  async schedule() {
+    const times: number[] = [];
+    for (const task of this.tasks) {
+      const at = await task.nextRunAt();
+      if (at !== null) times.push(at);
+    }
+    const alarm = await chrome.alarms.get(WATCH_ALARM);
+    if (times.length === 0) {
+      if (alarm) {
+        chrome.alarms.clear(WATCH_ALARM);
+        console.log('[Watcher] 没有等待中的任务，停止检查');
+      }
+      return;
+    }
+    const when = Math.max(Math.min(...times), Date.now() + MIN_ALARM_DELAY_MS);
+    if (!alarm || alarm.scheduledTime > when) {
+      chrome.alarms.create(WATCH_ALARM, { when });
+    }
+  }
+
+  // 依次执行到期的任务，结束后设置下一次闹钟
+  async run() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const now = Date.now();
+      const due: WatchTask[] = [];
+      for (const task of this.tasks) {
+        const at = await task.nextRunAt();
+        if (at !== null && at <= now) due.push(task);
+      }
+      if (due.length === 0) return;
+
+      // 钱包锁定时不执行（任务保持等待，解锁后的下一次闹钟继续）
+      if (!this.isReady()) {
+        console.log('[Watcher] 钱包未解锁，跳过', due.map((task) => task.label).join('、'));
+        return;
+      }
+
+      for (const task of due) {
+        try {
+          await task.evaluate();
+        } catch (error: any) {
+          console.error(`[Watcher] ${task.label}失败:`, error.message || error);
+        }
+      }
+    } finally {
+      this.running = false;
+      await this.schedule();
+    }
+  }
+}
+
+// 任务数据的存储方式
+export interface StoredListOptions<T> {
+  read(): Promise<T[]>;
+  write(items: T[]): Promise<void>;
+  isOpen(item: T): boolean; // 未结束的项目全部保留
+  finishedAt(item: T): number;
+  maxFinished: number; // 保留的已结束项目数量
+  recover?(items: T[]): boolean; // 首次加载时处理执行中被中断的项目，有修改时返回 true
+}
+
+export class StoredList<T> {
+  private items: T[] | null = null;
+  private options: StoredListOptions<T>;
+
+  constructor(options: StoredListOptions<T>) {
+    this.options = options;
+  }
+
+  async load(): Promise<T[]> {
+    if (!this.items) {
+      this.items = await this.options.read();
+      if (this.options.recover?.(this.items)) await this.persist();
+    }
+    return this.items;
+  }
+
+  // 保存，只保留最近的已结束项目
+  async persist() {
+    const { isOpen, finishedAt, maxFinished } = this.options;
+    const open = this.items!.filter((item) => isOpen(item));
+    const finished = this.items!
+      .filter((item) => !isOpen(item))
+      .sort((a, b) => finishedAt(b) - finishedAt(a))
+      .slice(0, maxFinished);
+    this.items = [...open, ...finished];
+    await this.options.write(this.items);
+  }
+}
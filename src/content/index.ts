@@ -1,20 +1,82 @@
-import { Message, MessageResponse, Config, TradeStatus } from '../shared/types';
+import {
+  Message,
+  MessageResponse,
+  Config,
+  TradeStatus,
+  WalletState,
+  BundleBuyResult,
+  LimitViolation,
+  TradeQuotePreview,
+  SellMode,
+  SellOrder,
+  CustomTradePresets,
+  LimitOrder,
+  TokenMarket,
+  ExitPlan,
+  PositionView,
+  TradeResult,
+  Schedule,
+  ScheduleKind,
+  TradeProgressEvent,
+  TRADE_PROGRESS_PORT,
+} from '../shared/types';
+import {
+  ORDER_STATUS_LABELS,
+  EXIT_STATUS_LABELS,
+  EXIT_TRIGGER_LABELS,
+  describeOrderAmount,
+  describeOrderTrigger,
+  describeExitRules,
+  SCHEDULE_STATUS_LABELS,
+  describeSchedule,
+  describeScheduleProgress,
+  describeTradeResult,
+  TRADE_STAGE_LABELS,
+  formatNumber,
+} from '../shared/orders';
 
 // 状态
 let config: Config | null = null;
-let walletState = { address: '', balance: 0, isLocked: false };
+let walletState: WalletState = { address: '', balance: 0, isLocked: false, needsMigration: false, wallets: [] };
 let currentCA = '';
 let status: TradeStatus = 'idle';
 let preloadTimeout: ReturnType<typeof setTimeout> | null = null;
+let customPreloadTimeout: ReturnType<typeof setTimeout> | null = null;
+let armedCA = ''; // 已启用交易的 Token（需要启用时，切换 Token 后自动失效）
+
+// 批量买入状态
+let bundleMode = false;
+const bundleSelection = new Set<string>(); // 选中的钱包地址
+const bundleAmounts = new Map<string, string>(); // 钱包单独设置的金额（输入框原始值）
+
+// 挂单状态
+let ordersOpen = false;
+
+// 止盈止损状态
+let attachExits: boolean | null = null; // 买入后挂载止盈止损（null 时使用设置中的默认值）
+let exitsOpen = false;
+let schedulesOpen = false;
+
+// 交易进度（后台通过长连接推送，Service Worker 重启后连接断开，下次交易时重新连接）
+let progressPort: chrome.runtime.Port | null = null;
+let activeTradeId = '';
+let activeTradeLabel = '';
+const detachedTrades = new Map<string, string>(); // 快速发送、等待后台确认的交易（tradeId -> 交易说明）
 
 // DOM元素
 let panel: HTMLElement;
 let balanceEl: HTMLElement;
+let walletSelect: HTMLSelectElement;
 let caInput: HTMLInputElement;
 let statusDot: HTMLElement;
 let statusText: HTMLElement;
 let buyButtons: HTMLButtonElement[] = [];
 let sellButtons: HTMLButtonElement[] = [];
+let bundleResultsEl: HTMLElement;
+let armBtn: HTMLButtonElement;
+let customBuyInput: HTMLInputElement;
+let customSellInput: HTMLInputElement;
+let customSellMode: HTMLSelectElement;
 
 // 发送消息到background
 function sendMessage(message: Message): Promise<any> {
@@ -25,7 +87,11 @@ function sendMessage(message: Message): Promise<any> {
       } else if (response && response.success) {
         resolve(response.data);
       } else {
-        reject(new Error(response?.error || '未知错误'));
+        // 附带错误类型和详情（例如限额检查未通过）
+        reject(Object.assign(new Error(response?.error || '未知错误'), {
+          code: response?.code,
+          data: response?.data,
+        }));
       }
     });
   });
@@ -43,6 +109,107 @@ function showToast(message: string, type: 'success' | 'error' = 'success') {
   setTimeout(() => toast.remove(), 3000);
 }
 
+// 在面板内显示确认框
+function showConfirm(title: string, message: string, confirmText: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    panel.querySelector('.sol-sniper-confirm')?.remove();
+
+    const overlay = document.createElement('div');
+    overlay.className = 'sol-sniper-confirm';
+    overlay.innerHTML = `
+      <div class="sol-sniper-confirm-box">
+        <div class="sol-sniper-confirm-title"></div>
+        <div class="sol-sniper-confirm-message"></div>
+        <div class="sol-sniper-confirm-actions">
+          <button class="sol-sniper-confirm-cancel">取消</button>
+          <button class="sol-sniper-confirm-ok"></button>
+        </div>
+      </div>
+    `;
+    overlay.querySelector('.sol-sniper-confirm-title')!.textContent = title;
+    overlay.querySelector('.sol-sniper-confirm-message')!.textContent = message;
+    overlay.querySelector('.sol-sniper-confirm-ok')!.textContent = confirmText;
+
+    const close = (result: boolean) => {
+      overlay.remove();
+      resolve(result);
+    };
+    (overlay.querySelector('.sol-sniper-confirm-cancel') as HTMLElement).onclick = () => close(false);
+    (overlay.querySelector('.sol-sniper-confirm-ok') as HTMLElement).onclick = () => close(true);
+    panel.appendChild(overlay);
+  });
+}
+
+// 限额检查未通过时，询问用户是否临时调整限额（有效期10分钟）
+async function confirmLimitOverride(message: string, violation: LimitViolation): Promise<boolean> {
+  const hint = violation.kind === 'reserve'
+    ? `临时将最低保留降低到 ${Number(violation.required.toFixed(4))} SOL（10分钟内有效）？`
+    : `临时将限额提高到 ${Number(violation.required.toFixed(4))} SOL（10分钟内有效）？`;
+  const confirmed = await showConfirm('超出交易限额', `${message}\n\n${hint}`, '临时调整并继续');
+  if (!confirmed) return false;
+
+  await sendMessage({
+    type: 'OVERRIDE_LIMIT',
+    payload: { kind: violation.kind, value: violation.required },
+  });
+  return true;
+}
+
+// 当前 Token 是否可以交易（未开启启用模式时始终可以）
+function isArmed(): boolean {
+  return !config?.requireArming || (!!currentCA && armedCA === currentCA);
+}
+
+// 更新启用交易按钮和交易按钮状态
+function renderArmState() {
+  if (!armBtn) return;
+  armBtn.style.display = config?.requireArming ? '' : 'none';
+  const armed = isArmed();
+  armBtn.classList.toggle('armed', armed);
+  armBtn.textContent = armed ? '⚡ 交易已启用（点击关闭）' : '🔒 点击启用当前 Token 交易';
+  panel.querySelectorAll('.sol-sniper-btn-group').forEach((group) => {
+    group.classList.toggle('inert', !armed);
+  });
+}
+
+// 切换当前 Token 的启用状态
+function toggleArmed() {
+  if (!currentCA || currentCA.length < 32) {
+    showToast('请先输入CA', 'error');
+    return;
+  }
+  armedCA = armedCA === currentCA ? '' : currentCA;
+  renderArmState();
+}
+
+// 格式化数量显示
+function formatAmount(value: number): string {
+  if (value >= 1000) return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return formatNumber(value);
+}
+
+// 交易前二次确认，展示预加载的报价
+async function confirmTrade(side: 'buy' | 'sell', value: number, mode: SellMode = 'percent'): Promise<boolean> {
+  updateStatus('loading', '获取报价...');
+  let detail: string;
+  try {
+    const quote: TradeQuotePreview = await sendMessage({
+      type: 'GET_TRADE_QUOTE',
+      payload: { ca: currentCA, side, value, mode },
+    });
+    const output = side === 'buy'
+      ? `预计获得: ${formatAmount(quote.outAmount)} 枚`
+      : `卖出 ${formatAmount(quote.inAmount)} 枚，预计获得: ${formatAmount(quote.outAmount)} SOL`;
+    detail = `${output}\n价格影响: ${quote.priceImpactPct.toFixed(2)}%\n${quote.cached ? '报价来自预加载缓存' : '实时报价'}`;
+  } catch (error: any) {
+    detail = `无法获取报价: ${error.message}`;
+  }
+  updateStatus('ready', '等待确认');
+
+  const title = side === 'buy' ? `确认买入 ${value} SOL` : '确认全部卖出';
+  return showConfirm(title, detail, side === 'buy' ? '确认买入' : '确认卖出');
+}
+
 // 更新状态显示
 function updateStatus(newStatus: TradeStatus, text?: string) {
   status = newStatus;
@@ -72,6 +239,104 @@ function updateStatus(newStatus: TradeStatus, text?: string) {
   }
 }
 
+// 连接交易进度推送
+function connectProgress() {
+  if (progressPort) return;
+  progressPort = chrome.runtime.connect({ name: TRADE_PROGRESS_PORT });
+  progressPort.onMessage.addListener(handleTradeProgress);
+  progressPort.onDisconnect.addListener(() => {
+    void chrome.runtime.lastError;
+    progressPort = null;
+  });
+}
+
+// 开始跟踪一笔交易的进度，返回随交易消息发送的 tradeId
+function beginTradeProgress(label: string): string {
+  connectProgress();
+  activeTradeId = crypto.randomUUID();
+  activeTradeLabel = label;
+  renderTradeProgress(null);
+  updateStatus('executing', `${label}...`);
+  return activeTradeId;
+}
+
+// 显示交易阶段和耗时，有签名后显示 Solscan 链接
+function handleTradeProgress(event: TradeProgressEvent) {
+  const settled = event.stage === 'landed' || event.stage === 'failed';
+  if (event.tradeId === activeTradeId) {
+    const attempt = event.attempt && event.attempt > 1 ? ` (第${event.attempt}次)` : '';
+    const error = event.stage === 'retry' && event.error ? `: ${event.error}` : '';
+    const text = `${activeTradeLabel} · ${TRADE_STAGE_LABELS[event.stage]}${attempt}${error} · ${(event.elapsed / 1000).toFixed(1)}s`;
+    if (!settled) {
+      updateStatus('executing', text);
+    }
+    renderTradeProgress(event);
+  }
+
+  const label = detachedTrades.get(event.tradeId);
+  if (label && settled) {
+    detachedTrades.delete(event.tradeId);
+    settleDetachedTrade(event, label);
+  }
+}
+
+// 快速发送的交易确认后提示结果（面板可能已开始下一笔交易）
+function settleDetachedTrade(event: TradeProgressEvent, label: string) {
+  const active = event.tradeId === activeTradeId;
+  if (event.stage === 'landed' && event.result) {
+    showToast(`${label} 已确认: ${describeTradeResult(event.result)}`, 'success');
+    if (active) {
+      updateStatus('ready', '成功!');
+      renderTradeProgress(null);
+    }
+    if (event.result.ca === currentCA) renderTradeResult(event.result);
+  } else {
+    showToast(`${label} 失败: ${event.error || '未知错误'}`, 'error');
+    if (active) updateStatus('error', event.error);
+  }
+  refreshBalance();
+  refreshExitPlans();
+}
+
+// 交易返回后显示结果，快速发送的交易等待后台推送确认结果
+function showTradeResult(tradeId: string, result: TradeResult) {
+  const side = result.side === 'buy' ? '买入' : '卖出';
+  renderTradeResult(result);
+  if (result.pending) {
+    detachedTrades.set(tradeId, activeTradeLabel);
+    showToast(`${side}${describeTradeResult(result)}`, 'success');
+    updateStatus('ready', '已发送，等待确认');
+    return;
+  }
+  showToast(`${side}成功! ${describeTradeResult(result)}`, 'success');
+  updateStatus('ready', '成功!');
+  renderTradeProgress(null);
+}
+
+function renderTradeProgress(event: TradeProgressEvent | null) {
+  const progressEl = document.getElementById('sol-trade-progress');
+  if (!progressEl) return;
+  if (!event?.signature) {
+    progressEl.style.display = 'none';
+    return;
+  }
+
+  progressEl.innerHTML = '';
+  const label = document.createElement('span');
+  label.textContent = `${TRADE_STAGE_LABELS[event.stage]} · `;
+  const link = document.createElement('a');
+  link.href = `https://solscan.io/tx/${event.signature}`;
+  link.target = '_blank';
+  link.rel = 'noopener noreferrer';
+  link.textContent = `${event.signature.slice(0, 8)}...`;
+  progressEl.append(label, link);
+  progressEl.title = Object.entries(event.timings)
+    .map(([step, ms]) => `${step}: ${ms.toFixed(0)}ms`)
+    .join('\n');
+  progressEl.className = `sol-sniper-trade-progress ${event.stage}`;
+  progressEl.style.display = '';
+}
+
 // 更新按钮状态
 function updateButtons(enabled: boolean) {
   const canTrade = enabled && currentCA.length >= 32;
@@ -87,7 +352,10 @@ async function preloadTrades() {
   updateButtons(false);
 
   try {
-    const result = await sendMessage({ type: 'PRELOAD_TRADES', payload: { ca: currentCA } });
+    const result = await sendMessage({
+      type: 'PRELOAD_TRADES',
+      payload: { ca: currentCA, custom: readCustomPresets() },
+    });
     updateStatus('ready', `就绪 (${result.cached}个已缓存)`);
     updateButtons(true);
   } catch (error: any) {
@@ -96,79 +364,816 @@ async function preloadTrades() {
   }
 }
 
+// 读取自定义买入金额（无效时返回 null）
+function readCustomBuy(): number | null {
+  const value = parseFloat(customBuyInput?.value || '');
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+// 读取自定义卖出（无效时返回 null）
+function readCustomSell(): SellOrder | null {
+  const value = parseFloat(customSellInput?.value || '');
+  const mode = (customSellMode?.value || 'percent') as SellMode;
+  if (!Number.isFinite(value) || value <= 0) return null;
+  if (mode === 'percent' && value > 100) return null;
+  return { mode, value };
+}
+
+function readCustomPresets(): CustomTradePresets {
+  return { buy: readCustomBuy(), sell: readCustomSell() };
+}
+
+// 自定义金额输入后预加载对应交易（防抖）
+function handleCustomInput() {
+  if (customPreloadTimeout) clearTimeout(customPreloadTimeout);
+  if (!currentCA || currentCA.length < 32) return;
+
+  customPreloadTimeout = setTimeout(async () => {
+    try {
+      await sendMessage({
+        type: 'PRELOAD_CUSTOM_TRADE',
+        payload: { ca: currentCA, ...readCustomPresets() },
+      });
+    } catch (error: any) {
+      console.warn('[SolSniper] 自定义金额预加载失败:', error.message);
+    }
+  }, 500);
+}
+
+// 自定义买入
+function handleCustomBuy() {
+  const amount = readCustomBuy();
+  if (amount === null) {
+    showToast('请输入有效的买入金额', 'error');
+    return;
+  }
+  handleBuy(amount);
+}
+
+// 自定义卖出
+function handleCustomSell() {
+  const order = readCustomSell();
+  if (!order) {
+    showToast('请输入有效的卖出数量', 'error');
+    return;
+  }
+  handleSell(order);
+}
+
+// 卖出描述
+function describeSell(order: SellOrder): string {
+  switch (order.mode) {
+    case 'tokens':
+      return `${formatAmount(order.value)} 枚`;
+    case 'solValue':
+      return `价值 ${order.value} SOL`;
+    default:
+      return `${order.value}%`;
+  }
+}
+
+// 卖出消息
+function sellMessage(order: SellOrder, tradeId?: string): Message {
+  switch (order.mode) {
+    case 'tokens':
+      return { type: 'EXECUTE_SELL_TOKENS', payload: { ca: currentCA, amount: order.value, tradeId } };
+    case 'solValue':
+      return { type: 'EXECUTE_SELL_SOL_VALUE', payload: { ca: currentCA, solAmount: order.value, tradeId } };
+    default:
+      return { type: 'EXECUTE_SELL', payload: { ca: currentCA, percent: order.value, tradeId } };
+  }
+}
+
+// 是否为全部卖出（按数量卖出时与当前余额比较）
+async function isFullSell(order: SellOrder): Promise<boolean> {
+  if (order.mode === 'percent') return order.value >= 100;
+  if (order.mode !== 'tokens') return false;
+  try {
+    const balance: number = await sendMessage({ type: 'GET_TOKEN_BALANCE', payload: { ca: currentCA } });
+    return order.value >= balance;
+  } catch {
+    return false;
+  }
+}
+
 // CA输入处理（防抖）
 function handleCAInput(e: Event) {
   const input = e.target as HTMLInputElement;
+  const previousCA = currentCA;
   currentCA = input.value.trim();
+  if (previousCA && previousCA !== currentCA) {
+    releasePreload(currentCA.length >= 32 ? currentCA : null);
+  }
+  // 切换 Token 后需重新启用交易（切换回原 Token 也需要）
+  if (armedCA !== currentCA) armedCA = '';
+  renderArmState();
+  renderTradeProgress(null);
+  renderTradeResult(null);
 
   if (preloadTimeout) clearTimeout(preloadTimeout);
 
   if (currentCA.length >= 32) {
     updateStatus('loading', '准备中...');
-    preloadTimeout = setTimeout(preloadTrades, 300);
+    preloadTimeout = setTimeout(() => {
+      preloadTrades();
+      refreshOrders();
+      refreshExitPlans();
+      refreshSchedules();
+      refreshPosition();
+    }, 300);
   } else {
     updateStatus('idle', '请输入CA');
     updateButtons(false);
+    refreshPosition();
   }
 }
 
+// 通知后台清除本标签页其他 CA 的预加载缓存（ca 为空时全部清除）
+function releasePreload(ca: string | null) {
+  sendMessage({ type: 'RELEASE_PRELOAD', payload: { ca } }).catch((error) => {
+    console.warn('[SolSniper] 清除预加载缓存失败:', error.message);
+  });
+}
+
 // 执行买入
-async function handleBuy(amount: number) {
+// confirmed 为 true 时跳过二次确认（例如确认调整限额后重新买入）
+async function handleBuy(amount: number, confirmed = false) {
   if (!currentCA) return;
+  if (!isArmed()) {
+    showToast('请先启用当前 Token 的交易', 'error');
+    return;
+  }
+  if (bundleMode) {
+    await handleBundleBuy(amount);
+    return;
+  }
+
+  const threshold = config?.confirmBuyAbove || 0;
+  if (!confirmed && threshold > 0 && amount > threshold) {
+    updateButtons(false);
+    const ok = await confirmTrade('buy', amount);
+    updateButtons(true);
+    if (!ok) {
+      updateStatus('ready', '已取消');
+      return;
+    }
+  }
 
-  updateStatus('executing', `买入 ${amount} SOL...`);
+  const tradeId = beginTradeProgress(`买入 ${amount} SOL`);
   updateButtons(false);
 
   try {
-    const signature = await sendMessage({
+    const result: TradeResult = await sendMessage({
       type: 'EXECUTE_BUY',
-      payload: { ca: currentCA, amount }
+      payload: { ca: currentCA, amount, attachExits: !!attachExits, tradeId }
     });
-    showToast(`买入成功! ${signature.slice(0, 8)}...`, 'success');
-    updateStatus('ready', '成功!');
+    showTradeResult(tradeId, result);
     refreshBalance();
+    refreshExitPlans();
   } catch (error: any) {
     console.error('[SolSniper] 买入失败:', error);
+    updateStatus('error', error.message);
+
+    // 超出限额：用户确认后临时调整限额并重新买入
+    if (error.code === 'LIMIT_EXCEEDED') {
+      updateButtons(true);
+      try {
+        if (await confirmLimitOverride(error.message, error.data)) {
+          await handleBuy(amount, true);
+        }
+      } catch (overrideError: any) {
+        showToast(overrideError.message, 'error');
+      }
+      return;
+    }
+
     showToast(`买入失败: ${error.message}`, 'error');
+    // 钱包可能已自动锁定，刷新状态
+    refreshBalance();
+  }
+
+  updateButtons(true);
+}
+
+// 执行批量买入
+async function handleBundleBuy(amount: number) {
+  const wallets = walletState.wallets
+    .filter((w) => bundleSelection.has(w.address))
+    .map((w) => {
+      const custom = parseFloat(bundleAmounts.get(w.address) || '');
+      return { address: w.address, amount: custom > 0 ? custom : undefined };
+    });
+
+  if (wallets.length === 0) {
+    showToast('请选择批量买入的钱包', 'error');
+    return;
+  }
+
+  let randomRange: { min: number; max: number } | undefined;
+  const randomToggle = document.getElementById('sol-bundle-random') as HTMLInputElement;
+  if (randomToggle.checked) {
+    const min = parseFloat((document.getElementById('sol-bundle-min') as HTMLInputElement).value);
+    const max = parseFloat((document.getElementById('sol-bundle-max') as HTMLInputElement).value);
+    if (!(min > 0 && max >= min)) {
+      showToast('请输入有效的随机金额区间', 'error');
+      return;
+    }
+    randomRange = { min, max };
+  }
+
+  // 任一钱包金额超过确认阈值时二次确认
+  const threshold = config?.confirmBuyAbove || 0;
+  const walletAmounts = wallets.map((w) => w.amount ?? (randomRange ? randomRange.max : amount));
+  const maxAmount = Math.max(...walletAmounts);
+  if (threshold > 0 && maxAmount > threshold) {
+    const total = walletAmounts.reduce((sum, a) => sum + a, 0);
+    const ok = await showConfirm(
+      '确认批量买入',
+      `${wallets.length} 个钱包，单个钱包最多 ${formatAmount(maxAmount)} SOL，合计最多 ${formatAmount(total)} SOL`,
+      '确认买入'
+    );
+    if (!ok) return;
+  }
+
+  updateStatus('executing', `批量买入 ${wallets.length} 个钱包...`);
+  updateButtons(false);
+  bundleResultsEl.innerHTML = '';
+
+  try {
+    const result: BundleBuyResult = await sendMessage({
+      type: 'EXECUTE_BUNDLE_BUY',
+      payload: { ca: currentCA, amount, wallets, randomRange, attachExits: !!attachExits },
+    });
+    renderBundleResults(result);
+    const summary = `批量买入: 成功 ${result.succeeded}，失败 ${result.failed}，共 ${result.totalSol.toFixed(4)} SOL`;
+    showToast(summary, result.failed === 0 ? 'success' : 'error');
+    updateStatus(result.succeeded > 0 ? 'ready' : 'error', summary);
+    refreshBalance();
+  } catch (error: any) {
+    console.error('[SolSniper] 批量买入失败:', error);
+    showToast(`批量买入失败: ${error.message}`, 'error');
     updateStatus('error', error.message);
+    refreshBalance();
   }
 
   updateButtons(true);
 }
 
+// 渲染批量买入结果
+function renderBundleResults(result: BundleBuyResult) {
+  bundleResultsEl.innerHTML = '';
+  result.results.forEach((r) => {
+    const row = document.createElement('div');
+    row.className = `sol-sniper-bundle-result ${r.success ? 'success' : 'error'}`;
+
+    const name = document.createElement('span');
+    name.className = 'sol-sniper-bundle-result-name';
+    name.textContent = `${r.success ? '✓' : '✗'} ${r.label} · ${r.amount} SOL`;
+    row.appendChild(name);
+
+    if (r.signature) {
+      const link = document.createElement('a');
+      link.href = `https://solscan.io/tx/${r.signature}`;
+      link.target = '_blank';
+      link.rel = 'noopener noreferrer';
+      link.textContent = `${r.signature.slice(0, 8)}...`;
+      if (r.result) link.title = describeTradeResult(r.result);
+      row.appendChild(link);
+    } else {
+      const error = document.createElement('span');
+      error.className = 'sol-sniper-bundle-result-error';
+      error.textContent = r.error || '失败';
+      error.title = r.error || '';
+      row.appendChild(error);
+    }
+    bundleResultsEl.appendChild(row);
+  });
+}
+
+// 渲染批量买入钱包列表
+function renderBundleWallets() {
+  const section = document.getElementById('sol-bundle-section');
+  const list = document.getElementById('sol-bundle-wallets');
+  if (!section || !list) return;
+
+  // 只有多个钱包时才显示批量买入
+  section.style.display = walletState.wallets.length > 1 ? '' : 'none';
+
+  // 移除已删除钱包的选择
+  const addresses = new Set(walletState.wallets.map((w) => w.address));
+  Array.from(bundleSelection).forEach((address) => {
+    if (!addresses.has(address)) bundleSelection.delete(address);
+  });
+
+  list.innerHTML = '';
+  walletState.wallets.forEach((w) => {
+    const row = document.createElement('label');
+    row.className = 'sol-sniper-bundle-wallet';
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.checked = bundleSelection.has(w.address);
+    checkbox.onchange = () => {
+      if (checkbox.checked) bundleSelection.add(w.address);
+      else bundleSelection.delete(w.address);
+    };
+
+    const name = document.createElement('span');
+    name.className = 'sol-sniper-bundle-wallet-name';
+    name.textContent = `${w.label} (${w.balance.toFixed(2)})`;
+
+    const amountInput = document.createElement('input');
+    amountInput.type = 'number';
+    amountInput.min = '0';
+    amountInput.step = '0.01';
+    amountInput.placeholder = '预设';
+    amountInput.className = 'sol-sniper-bundle-amount';
+    amountInput.value = bundleAmounts.get(w.address) || '';
+    amountInput.oninput = () => bundleAmounts.set(w.address, amountInput.value.trim());
+
+    row.append(checkbox, name, amountInput);
+    list.appendChild(row);
+  });
+}
+
 // 执行卖出
-async function handleSell(percent: number) {
+async function handleSell(order: SellOrder) {
   if (!currentCA) return;
+  if (!isArmed()) {
+    showToast('请先启用当前 Token 的交易', 'error');
+    return;
+  }
 
-  updateStatus('executing', `卖出 ${percent}%...`);
+  if (config?.confirmFullSell) {
+    updateButtons(false);
+    const ok = !(await isFullSell(order)) || await confirmTrade('sell', order.value, order.mode);
+    updateButtons(true);
+    if (!ok) {
+      updateStatus('ready', '已取消');
+      return;
+    }
+  }
+
+  const tradeId = beginTradeProgress(`卖出 ${describeSell(order)}`);
   updateButtons(false);
 
   try {
-    const signature = await sendMessage({
-      type: 'EXECUTE_SELL',
-      payload: { ca: currentCA, percent }
-    });
-    showToast(`卖出成功! ${signature.slice(0, 8)}...`, 'success');
-    updateStatus('ready', '成功!');
+    const result: TradeResult = await sendMessage(sellMessage(order, tradeId));
+    showTradeResult(tradeId, result);
     refreshBalance();
   } catch (error: any) {
     console.error('[SolSniper] 卖出失败:', error);
     showToast(`卖出失败: ${error.message}`, 'error');
     updateStatus('error', error.message);
+    // 钱包可能已自动锁定，刷新状态
+    refreshBalance();
   }
 
   updateButtons(true);
 }
 
+// 挂单卖出方式（买入固定为 SOL）
+function renderOrderModeOptions() {
+  const side = (document.getElementById('sol-order-side') as HTMLSelectElement).value;
+  const mode = document.getElementById('sol-order-mode') as HTMLSelectElement;
+  mode.innerHTML = side === 'buy'
+    ? '<option value="sol">SOL</option>'
+    : '<option value="percent">%</option><option value="tokens">枚</option><option value="solValue">SOL</option>';
+}
+
+// 刷新当前 Token 的行情和挂单
+async function refreshOrders() {
+  const marketEl = document.getElementById('sol-order-market');
+  const listEl = document.getElementById('sol-order-list');
+  if (!ordersOpen || !marketEl || !listEl) return;
+
+  if (!currentCA || currentCA.length < 32) {
+    marketEl.textContent = '请先输入CA';
+    listEl.innerHTML = '';
+    return;
+  }
+
+  const ca = currentCA;
+  marketEl.textContent = '获取行情...';
+  const [market, orders] = await Promise.allSettled([
+    sendMessage({ type: 'GET_TOKEN_MARKET', payload: { ca } }) as Promise<TokenMarket>,
+    sendMessage({ type: 'LIST_ORDERS', payload: { ca } }) as Promise<LimitOrder[]>,
+  ]);
+  if (ca !== currentCA) return;
+
+  marketEl.textContent = market.status === 'fulfilled'
+    ? `价格 ${formatAmount(market.value.price)} SOL · 市值 ${formatAmount(market.value.marketCap)} SOL`
+    : `行情获取失败: ${market.reason?.message || ''}`;
+  if (orders.status === 'fulfilled') {
+    renderOrders(orders.value);
+  }
+}
+
+function renderOrders(orders: LimitOrder[]) {
+  const listEl = document.getElementById('sol-order-list');
+  if (!listEl) return;
+  listEl.innerHTML = '';
+
+  orders.forEach((order) => {
+    const row = document.createElement('div');
+    row.className = `sol-sniper-order ${order.status}`;
+
+    const info = document.createElement('span');
+    info.className = 'sol-sniper-order-info';
+    info.textContent = `${describeOrderAmount(order)} · ${describeOrderTrigger(order)}`;
+    info.title = order.reason ? `触发原因: ${order.reason}${order.error ? `\n${order.error}` : ''}` : '';
+    row.appendChild(info);
+
+    if (order.status === 'pending') {
+      const cancelBtn = document.createElement('button');
+      cancelBtn.className = 'sol-sniper-order-cancel';
+      cancelBtn.textContent = '取消';
+      cancelBtn.onclick = () => handleCancelOrder(order.id);
+      row.appendChild(cancelBtn);
+    } else if (order.signature) {
+      const link = document.createElement('a');
+      link.href = `https://solscan.io/tx/${order.signature}`;
+      link.target = '_blank';
+      link.rel = 'noopener noreferrer';
+      link.textContent = ORDER_STATUS_LABELS[order.status];
+      row.appendChild(link);
+    } else {
+      const statusEl = document.createElement('span');
+      statusEl.className = 'sol-sniper-order-status';
+      statusEl.textContent = ORDER_STATUS_LABELS[order.status];
+      statusEl.title = order.error || '';
+      row.appendChild(statusEl);
+    }
+    listEl.appendChild(row);
+  });
+}
+
+// 新建挂单
+async function handleCreateOrder() {
+  if (!currentCA || currentCA.length < 32) {
+    showToast('请先输入CA', 'error');
+    return;
+  }
+
+  const side = (document.getElementById('sol-order-side') as HTMLSelectElement).value as 'buy' | 'sell';
+  const kind = (document.getElementById('sol-order-kind') as HTMLSelectElement).value as 'price' | 'marketCap';
+  const direction = (document.getElementById('sol-order-direction') as HTMLSelectElement).value as 'above' | 'below';
+  const triggerInput = document.getElementById('sol-order-value') as HTMLInputElement;
+  const amountInput = document.getElementById('sol-order-amount') as HTMLInputElement;
+  const mode = (document.getElementById('sol-order-mode') as HTMLSelectElement).value;
+  const value = parseFloat(triggerInput.value);
+  const amount = parseFloat(amountInput.value);
+
+  if (!Number.isFinite(value) || value <= 0) {
+    showToast('请输入有效的触发值', 'error');
+    return;
+  }
+  if (!Number.isFinite(amount) || amount <= 0) {
+    showToast('请输入有效的数量', 'error');
+    return;
+  }
+
+  try {
+    await sendMessage({
+      type: 'CREATE_ORDER',
+      payload: {
+        ca: currentCA,
+        side,
+        amount: side === 'buy' ? amount : undefined,
+        sell: side === 'sell' ? { mode: mode as SellMode, value: amount } : undefined,
+        trigger: { kind, direction, value },
+      },
+    });
+    showToast('挂单已添加', 'success');
+    triggerInput.value = '';
+    amountInput.value = '';
+    refreshOrders();
+  } catch (error: any) {
+    showToast(error.message, 'error');
+  }
+}
+
+// 取消挂单
+async function handleCancelOrder(id: string) {
+  try {
+    await sendMessage({ type: 'CANCEL_ORDER', payload: { id } });
+    showToast('挂单已取消', 'success');
+  } catch (error: any) {
+    showToast(error.message, 'error');
+  }
+  refreshOrders();
+}
+
+// 刷新当前 Token 的止盈止损计划
+async function refreshExitPlans() {
+  const listEl = document.getElementById('sol-exit-list');
+  if (!exitsOpen || !listEl) return;
+
+  if (!currentCA || currentCA.length < 32) {
+    listEl.innerHTML = '<div class="sol-sniper-hint">请先输入CA</div>';
+    return;
+  }
+
+  const ca = currentCA;
+  try {
+    const plans: ExitPlan[] = await sendMessage({ type: 'LIST_EXIT_PLANS', payload: { ca } });
+    if (ca === currentCA) renderExitPlans(plans);
+  } catch (error: any) {
+    listEl.innerHTML = '';
+    showToast(error.message, 'error');
+  }
+}
+
+function renderExitPlans(plans: ExitPlan[]) {
+  const listEl = document.getElementById('sol-exit-list');
+  if (!listEl) return;
+  listEl.innerHTML = '';
+
+  if (plans.length === 0) {
+    listEl.innerHTML = '<div class="sol-sniper-hint">暂无止盈止损，勾选上方选项后买入即可挂载</div>';
+    return;
+  }
+
+  plans.forEach((plan) => {
+    const item = document.createElement('div');
+    item.className = `sol-sniper-exit ${plan.status}`;
+
+    const header = document.createElement('div');
+    header.className = 'sol-sniper-order';
+    const info = document.createElement('span');
+    info.className = 'sol-sniper-order-info';
+    const change = plan.lastPrice ? ` (${((plan.lastPrice / plan.entryPrice - 1) * 100).toFixed(1)}%)` : '';
+    info.textContent = `买入价 ${formatAmount(plan.entryPrice)} · 当前 ${plan.lastPrice ? formatAmount(plan.lastPrice) : '-'}${change}`;
+    info.title = `最高价 ${formatAmount(plan.peakPrice)} SOL`;
+    header.appendChild(info);
+
+    if (plan.status === 'active') {
+      const cancelBtn = document.createElement('button');
+      cancelBtn.className = 'sol-sniper-order-cancel';
+      cancelBtn.textContent = '停止';
+      cancelBtn.onclick = () => handleCancelExitPlan(plan.id);
+      header.appendChild(cancelBtn);
+    } else {
+      const statusEl = document.createElement('span');
+      statusEl.className = 'sol-sniper-order-status';
+      statusEl.textContent = EXIT_STATUS_LABELS[plan.status];
+      statusEl.title = plan.closeReason || '';
+      header.appendChild(statusEl);
+    }
+    item.appendChild(header);
+
+    const rules = document.createElement('div');
+    rules.className = 'sol-sniper-exit-rules';
+    rules.textContent = describeExitRules(plan.rules, plan.filledLevels);
+    item.appendChild(rules);
+
+    plan.fills.slice(-3).forEach((fill) => {
+      const row = document.createElement('div');
+      row.className = `sol-sniper-exit-fill ${fill.error ? 'error' : 'success'}`;
+      row.textContent = `${fill.error ? '✗' : '✓'} ${EXIT_TRIGGER_LABELS[fill.trigger]}: ${fill.reason}`;
+      row.title = fill.error || fill.signature || '';
+      item.appendChild(row);
+    });
+    listEl.appendChild(item);
+  });
+}
+
+// 停止止盈止损
+async function handleCancelExitPlan(id: string) {
+  try {
+    await sendMessage({ type: 'CANCEL_EXIT_PLAN', payload: { id } });
+    showToast('已停止止盈止损', 'success');
+  } catch (error: any) {
+    showToast(error.message, 'error');
+  }
+  refreshExitPlans();
+}
+
+// 分批买入表单提示（分批为总额，定投为每次金额）
+function renderScheduleForm() {
+  const kind = (document.getElementById('sol-schedule-kind') as HTMLSelectElement).value as ScheduleKind;
+  (document.getElementById('sol-schedule-amount') as HTMLInputElement).placeholder = kind === 'twap' ? '总额 (SOL)' : '每次 (SOL)';
+  (document.getElementById('sol-schedule-runs') as HTMLInputElement).placeholder = kind === 'twap' ? '分批次数' : '次数 (0=不限)';
+}
+
+// 刷新当前 Token 的分批买入和定投
+async function refreshSchedules() {
+  const listEl = document.getElementById('sol-schedule-list');
+  if (!schedulesOpen || !listEl) return;
+
+  if (!currentCA || currentCA.length < 32) {
+    listEl.innerHTML = '<div class="sol-sniper-hint">请先输入CA</div>';
+    return;
+  }
+
+  const ca = currentCA;
+  try {
+    const schedules: Schedule[] = await sendMessage({ type: 'LIST_SCHEDULES', payload: { ca } });
+    if (ca === currentCA) renderSchedules(schedules);
+  } catch (error: any) {
+    listEl.innerHTML = '';
+    showToast(error.message, 'error');
+  }
+}
+
+function renderSchedules(schedules: Schedule[]) {
+  const listEl = document.getElementById('sol-schedule-list');
+  if (!listEl) return;
+  listEl.innerHTML = '';
+
+  schedules.forEach((schedule) => {
+    const item = document.createElement('div');
+    item.className = `sol-sniper-exit ${schedule.status}`;
+
+    const header = document.createElement('div');
+    header.className = 'sol-sniper-order';
+    const info = document.createElement('span');
+    info.className = 'sol-sniper-order-info';
+    info.textContent = describeSchedule(schedule);
+    info.title = schedule.reason || '';
+    header.appendChild(info);
+
+    if (schedule.status === 'active' || schedule.status === 'paused') {
+      const toggleBtn = document.createElement('button');
+      toggleBtn.className = 'sol-sniper-order-cancel';
+      toggleBtn.textContent = schedule.status === 'active' ? '暂停' : '继续';
+      toggleBtn.onclick = () => handleScheduleAction(schedule.status === 'active' ? 'PAUSE_SCHEDULE' : 'RESUME_SCHEDULE', schedule.id);
+      header.appendChild(toggleBtn);
+
+      const cancelBtn = document.createElement('button');
+      cancelBtn.className = 'sol-sniper-order-cancel';
+      cancelBtn.textContent = '取消';
+      cancelBtn.onclick = () => handleScheduleAction('CANCEL_SCHEDULE', schedule.id);
+      header.appendChild(cancelBtn);
+    } else {
+      const statusEl = document.createElement('span');
+      statusEl.className = 'sol-sniper-order-status';
+      statusEl.textContent = SCHEDULE_STATUS_LABELS[schedule.status];
+      statusEl.title = schedule.reason || '';
+      header.appendChild(statusEl);
+    }
+    item.appendChild(header);
+
+    const progress = document.createElement('div');
+    progress.className = 'sol-sniper-exit-rules';
+    progress.textContent = schedule.status === 'paused' && schedule.reason
+      ? `${describeScheduleProgress(schedule)} · ${schedule.reason}`
+      : describeScheduleProgress(schedule);
+    item.appendChild(progress);
+
+    schedule.history.slice(-3).forEach((run) => {
+      const row = document.createElement('div');
+      row.className = `sol-sniper-exit-fill ${run.error ? 'error' : 'success'}`;
+      row.textContent = `${run.error ? '✗' : '✓'} 第 ${run.index} 次 ${formatAmount(run.amount)} SOL${run.error ? `: ${run.error}` : ''}`;
+      row.title = run.error || run.signature || '';
+      item.appendChild(row);
+    });
+    listEl.appendChild(item);
+  });
+}
+
+// 新建分批买入或定投
+async function handleCreateSchedule() {
+  if (!currentCA || currentCA.length < 32) {
+    showToast('请先输入CA', 'error');
+    return;
+  }
+
+  const kind = (document.getElementById('sol-schedule-kind') as HTMLSelectElement).value as ScheduleKind;
+  const amountInput = document.getElementById('sol-schedule-amount') as HTMLInputElement;
+  const runsInput = document.getElementById('sol-schedule-runs') as HTMLInputElement;
+  const intervalInput = document.getElementById('sol-schedule-interval') as HTMLInputElement;
+  const jitterInput = document.getElementById('sol-schedule-jitter') as HTMLInputElement;
+  const amount = parseFloat(amountInput.value);
+  const runs = parseInt(runsInput.value || '0', 10);
+  const intervalMinutes = parseFloat(intervalInput.value);
+  const jitterPct = parseFloat(jitterInput.value || '0');
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    showToast('请输入有效的金额', 'error');
+    return;
+  }
+  if (!Number.isFinite(intervalMinutes) || intervalMinutes <= 0) {
+    showToast('请输入有效的间隔', 'error');
+    return;
+  }
+
+  try {
+    await sendMessage({
+      type: 'CREATE_SCHEDULE',
+      payload: { ca: currentCA, kind, amount, runs, intervalMinutes, jitterPct },
+    });
+    showToast(kind === 'twap' ? '分批买入已开始' : '定投已开始', 'success');
+    amountInput.value = '';
+    runsInput.value = '';
+    refreshSchedules();
+  } catch (error: any) {
+    showToast(error.message, 'error');
+  }
+}
+
+// 暂停、继续或取消分批买入
+async function handleScheduleAction(type: 'PAUSE_SCHEDULE' | 'RESUME_SCHEDULE' | 'CANCEL_SCHEDULE', id: string) {
+  try {
+    await sendMessage({ type, payload: { id } });
+  } catch (error: any) {
+    showToast(error.message, 'error');
+  }
+  refreshSchedules();
+}
+
+// 显示最近一笔交易的实际成交，null 时隐藏
+function renderTradeResult(result: TradeResult | null) {
+  const resultEl = document.getElementById('sol-trade-result');
+  if (!resultEl) return;
+  if (!result) {
+    resultEl.style.display = 'none';
+    return;
+  }
+
+  // 买入价高于报价、卖出价低于报价为不利成交
+  const worse = result.side === 'buy' ? result.priceDiffPct > 0 : result.priceDiffPct < 0;
+  const tone = result.pending ? '' : result.verified && worse ? 'loss' : 'profit';
+  resultEl.className = `sol-sniper-trade-result ${tone}`;
+  resultEl.textContent = describeTradeResult(result);
+  resultEl.title = [
+    `成交价 ${formatAmount(result.price)} SOL · 报价 ${formatAmount(result.quotedPrice)} SOL`,
+    result.rent ? `Token 账户租金 ${formatPnl(result.rent)} SOL` : '',
+    result.signature,
+  ].filter(Boolean).join('\n');
+  resultEl.onclick = () => window.open(`https://solscan.io/tx/${result.signature}`, '_blank', 'noopener');
+  resultEl.style.display = '';
+}
+
+// 盈亏显示，例如 "+0.12"
+function formatPnl(value: number): string {
+  return `${value >= 0 ? '+' : ''}${formatAmount(value)}`;
+}
+
+// 刷新当前钱包在当前 Token 上的持仓
+async function refreshPosition() {
+  const positionEl = document.getElementById('sol-position');
+  if (!positionEl) return;
+
+  if (!currentCA || currentCA.length < 32) {
+    positionEl.style.display = 'none';
+    return;
+  }
+
+  const ca = currentCA;
+  let position: PositionView | null;
+  try {
+    position = await sendMessage({ type: 'GET_POSITION', payload: { ca } });
+  } catch (error) {
+    console.error('[SolSniper] 获取持仓失败:', error);
+    return;
+  }
+  if (ca !== currentCA) return;
+  if (!position) {
+    positionEl.style.display = 'none';
+    return;
+  }
+
+  const held = position.rawHeld / Math.pow(10, position.decimals);
+  const parts = position.rawHeld > 0
+    ? [`持仓 ${formatAmount(held)} 枚`, `均价 ${formatAmount(position.avgCost)}`]
+    : ['已清仓'];
+  if (position.rawHeld > 0) {
+    parts.push(position.unrealizedPnl !== undefined
+      ? `价值 ${formatAmount(position.value!)} SOL (${formatPnl(position.unrealizedPnl)})`
+      : '价值 -');
+  }
+  parts.push(`已实现 ${formatPnl(position.realizedPnl)} SOL`);
+
+  positionEl.textContent = parts.join(' · ');
+  positionEl.title = [
+    `买入 ${position.buys} 笔，共 ${formatAmount(position.solIn)} SOL`,
+    `卖出 ${position.sells} 笔，共 ${formatAmount(position.solOut)} SOL`,
+    `持仓成本 ${formatAmount(position.costBasis)} SOL`,
+    position.valueError ? `估值失败: ${position.valueError}` : '',
+  ].filter(Boolean).join('\n');
+  const pnl = (position.unrealizedPnl || 0) + position.realizedPnl;
+  positionEl.className = `sol-sniper-position ${pnl >= 0 ? 'profit' : 'loss'}`;
+  positionEl.style.display = '';
+}
+
 // 刷新余额
 async function refreshBalance() {
   try {
     walletState = await sendMessage({ type: 'GET_WALLET_STATE' });
+    // 钱包可能已自动锁定，切换到解锁界面
+    if (walletState.isLocked) {
+      showLocked();
+      return;
+    }
     if (balanceEl) {
       const balance = walletState.balance || 0;
       balanceEl.textContent = balance.toFixed(4);
     }
+    renderWalletSelect();
+    renderBundleWallets();
     updateButtons(status === 'ready');
+    refreshPosition();
   } catch (error) {
     console.error('[SolSniper] 刷新余额失败:', error);
     // 即使失败也尝试显示当前余额
@@ -179,7 +1184,91 @@ async function refreshBalance() {
   }
 }
 
-// 锁定功能已移除
+// 渲染钱包切换下拉框
+function renderWalletSelect() {
+  if (!walletSelect) return;
+  walletSelect.innerHTML = '';
+  walletState.wallets.forEach((w) => {
+    const option = document.createElement('option');
+    option.value = w.address;
+    option.textContent = `${w.label} (${w.balance.toFixed(2)})${w.needsBackup ? ' · 未备份' : ''}`;
+    option.selected = w.isActive;
+    walletSelect.appendChild(option);
+  });
+  // 只有一个钱包时无需显示
+  walletSelect.style.display = walletState.wallets.length > 1 ? '' : 'none';
+}
+
+// 切换当前钱包
+async function handleWalletChange() {
+  const address = walletSelect.value;
+  if (address === walletState.address) return;
+
+  walletSelect.disabled = true;
+  try {
+    walletState = await sendMessage({ type: 'SET_ACTIVE_WALLET', payload: { address } });
+    balanceEl.textContent = (walletState.balance || 0).toFixed(4);
+    renderWalletSelect();
+    const active = walletState.wallets.find((w) => w.isActive);
+    showToast(`已切换到 ${active?.label || address.slice(0, 8)}`, 'success');
+    // 预加载的交易属于旧钱包，需重新预加载
+    if (currentCA.length >= 32) {
+      preloadTrades();
+    }
+  } catch (error: any) {
+    showToast(error.message, 'error');
+    renderWalletSelect();
+  } finally {
+    walletSelect.disabled = false;
+  }
+}
+
+// 显示锁定界面
+function showLocked() {
+  const body = panel.querySelector('.sol-sniper-body') as HTMLElement;
+  const migrating = walletState.needsMigration;
+  body.innerHTML = `
+    <div class="sol-sniper-locked">
+      <div class="sol-sniper-locked-icon">🔒</div>
+      <div class="sol-sniper-locked-text">${migrating ? '请设置钱包密码' : '钱包已锁定'}</div>
+      <div class="sol-sniper-password-modal">
+        <input type="password" class="sol-sniper-input" id="sol-unlock-password" placeholder="${migrating ? '设置新密码（至少8个字符）' : '输入密码'}">
+        <button class="sol-sniper-unlock-btn" id="sol-unlock-btn">${migrating ? '设置密码并解锁' : '解锁'}</button>
+      </div>
+      ${migrating ? '<div class="sol-sniper-hint">旧版钱包使用默认密码加密<br>设置新密码后才能继续交易</div>' : ''}
+    </div>
+  `;
+
+  const passwordInput = document.getElementById('sol-unlock-password') as HTMLInputElement;
+  const unlockBtn = document.getElementById('sol-unlock-btn') as HTMLButtonElement;
+
+  const unlock = async () => {
+    const password = passwordInput.value;
+    if (!password) {
+      showToast('请输入密码', 'error');
+      return;
+    }
+    unlockBtn.disabled = true;
+    try {
+      walletState = await sendMessage({ type: 'UNLOCK_WALLET', payload: { password } });
+      passwordInput.value = '';
+      showToast('钱包已解锁', 'success');
+      initTradeUI();
+      refreshBalance();
+      performCAExtraction(true);
+    } catch (error: any) {
+      passwordInput.value = '';
+      showToast(error.message || '解锁失败', 'error');
+    } finally {
+      unlockBtn.disabled = false;
+    }
+  };
+
+  unlockBtn.onclick = unlock;
+  passwordInput.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter') unlock();
+  });
+}
 
 // 显示未配置提示
 function showNotConfigured() {
@@ -223,30 +1312,148 @@ function initTradeUI() {
       </button>
       <span class="sol-sniper-balance-value" id="sol-balance">0.00</span>
       <span class="sol-sniper-balance-unit">SOL</span>
+      <select class="sol-sniper-wallet-select" id="sol-wallet-select" title="切换钱包"></select>
     </div>
 
     <div class="sol-sniper-input-group">
       <input type="text" class="sol-sniper-input" placeholder="输入代币CA地址" id="sol-ca-input">
+      <button class="sol-sniper-arm-btn" id="sol-arm-btn" style="display: none;"></button>
+      <div class="sol-sniper-position" id="sol-position" style="display: none;"></div>
     </div>
 
     <div class="sol-sniper-section">
       <div class="sol-sniper-section-title">买入 (SOL)</div>
       <div class="sol-sniper-btn-group" id="sol-buy-btns"></div>
+      <label class="sol-sniper-bundle-toggle sol-sniper-exit-toggle">
+        <input type="checkbox" id="sol-attach-exits">
+        <span id="sol-attach-exits-text"></span>
+      </label>
+      <div class="sol-sniper-btn-group sol-sniper-custom">
+        <input type="number" class="sol-sniper-custom-input" id="sol-custom-buy" min="0" step="0.01" placeholder="自定义 SOL">
+        <button class="sol-sniper-btn sol-sniper-btn-buy" id="sol-custom-buy-btn" disabled>买入</button>
+      </div>
+    </div>
+
+    <div class="sol-sniper-section sol-sniper-bundle" id="sol-bundle-section" style="display: none;">
+      <label class="sol-sniper-bundle-toggle">
+        <input type="checkbox" id="sol-bundle-toggle">
+        <span>批量买入（选中的钱包同时买入）</span>
+      </label>
+      <div class="sol-sniper-bundle-body" id="sol-bundle-body" style="display: none;">
+        <div id="sol-bundle-wallets"></div>
+        <div class="sol-sniper-bundle-random">
+          <label><input type="checkbox" id="sol-bundle-random"> 随机金额</label>
+          <input type="number" class="sol-sniper-bundle-amount" id="sol-bundle-min" min="0" step="0.01" placeholder="最小">
+          <span>-</span>
+          <input type="number" class="sol-sniper-bundle-amount" id="sol-bundle-max" min="0" step="0.01" placeholder="最大">
+        </div>
+        <div class="sol-sniper-hint">未单独设置金额的钱包使用点击的预设金额或随机金额</div>
+      </div>
+      <div id="sol-bundle-results"></div>
     </div>
 
     <div class="sol-sniper-section">
-      <div class="sol-sniper-section-title">卖出 (%)</div>
+      <div class="sol-sniper-section-title">卖出</div>
       <div class="sol-sniper-btn-group" id="sol-sell-btns"></div>
+      <div class="sol-sniper-btn-group sol-sniper-custom">
+        <input type="number" class="sol-sniper-custom-input" id="sol-custom-sell" min="0" step="any" placeholder="自定义">
+        <select class="sol-sniper-custom-mode" id="sol-custom-sell-mode" title="卖出方式">
+          <option value="percent">%</option>
+          <option value="tokens">枚</option>
+          <option value="solValue">SOL</option>
+        </select>
+        <button class="sol-sniper-btn sol-sniper-btn-sell" id="sol-custom-sell-btn" disabled>卖出</button>
+      </div>
+    </div>
+
+    <div class="sol-sniper-section">
+      <label class="sol-sniper-bundle-toggle">
+        <input type="checkbox" id="sol-orders-toggle">
+        <span>挂单（价格/市值触发）</span>
+      </label>
+      <div class="sol-sniper-bundle-body" id="sol-orders-body" style="display: none;">
+        <div class="sol-sniper-hint sol-sniper-order-market" id="sol-order-market" title="点击刷新"></div>
+        <div class="sol-sniper-order-form">
+          <select class="sol-sniper-custom-mode" id="sol-order-side">
+            <option value="buy">买入</option>
+            <option value="sell">卖出</option>
+          </select>
+          <select class="sol-sniper-custom-mode" id="sol-order-kind">
+            <option value="price">价格</option>
+            <option value="marketCap">市值</option>
+          </select>
+          <select class="sol-sniper-custom-mode" id="sol-order-direction">
+            <option value="below">≤</option>
+            <option value="above">≥</option>
+          </select>
+          <input type="number" class="sol-sniper-custom-input" id="sol-order-value" min="0" step="any" placeholder="触发值 (SOL)">
+        </div>
+        <div class="sol-sniper-order-form">
+          <input type="number" class="sol-sniper-custom-input" id="sol-order-amount" min="0" step="any" placeholder="数量">
+          <select class="sol-sniper-custom-mode" id="sol-order-mode"></select>
+          <button class="sol-sniper-order-add" id="sol-order-add">添加挂单</button>
+        </div>
+        <div id="sol-order-list"></div>
+      </div>
+    </div>
+
+    <div class="sol-sniper-section">
+      <label class="sol-sniper-bundle-toggle">
+        <input type="checkbox" id="sol-schedules-toggle">
+        <span>分批买入 / 定投</span>
+      </label>
+      <div class="sol-sniper-bundle-body" id="sol-schedules-body" style="display: none;">
+        <div class="sol-sniper-order-form">
+          <select class="sol-sniper-custom-mode" id="sol-schedule-kind">
+            <option value="twap">分批</option>
+            <option value="dca">定投</option>
+          </select>
+          <input type="number" class="sol-sniper-custom-input" id="sol-schedule-amount" min="0" step="any">
+          <input type="number" class="sol-sniper-custom-input" id="sol-schedule-runs" min="0" step="1">
+        </div>
+        <div class="sol-sniper-order-form">
+          <input type="number" class="sol-sniper-custom-input" id="sol-schedule-interval" min="0.5" step="any" placeholder="间隔 (分钟)">
+          <input type="number" class="sol-sniper-custom-input" id="sol-schedule-jitter" min="0" max="100" step="1" placeholder="随机 (%)">
+          <button class="sol-sniper-order-add" id="sol-schedule-add">开始</button>
+        </div>
+        <div id="sol-schedule-list"></div>
+      </div>
+    </div>
+
+    <div class="sol-sniper-section">
+      <label class="sol-sniper-bundle-toggle">
+        <input type="checkbox" id="sol-exits-toggle">
+        <span>止盈止损</span>
+      </label>
+      <div class="sol-sniper-bundle-body" id="sol-exits-body" style="display: none;">
+        <div id="sol-exit-list"></div>
+      </div>
     </div>
 
     <div class="sol-sniper-status">
       <span class="sol-sniper-status-dot" id="sol-status-dot"></span>
       <span class="sol-sniper-status-text" id="sol-status-text">等待输入</span>
     </div>
+    <div class="sol-sniper-trade-progress" id="sol-trade-progress" style="display: none;"></div>
+    <div class="sol-sniper-trade-result" id="sol-trade-result" style="display: none;"></div>
   `;
 
   // 绑定元素
   balanceEl = document.getElementById('sol-balance')!;
+  walletSelect = document.getElementById('sol-wallet-select') as HTMLSelectElement;
+  walletSelect.addEventListener('change', handleWalletChange);
+  renderWalletSelect();
+
+  // 批量买入
+  bundleResultsEl = document.getElementById('sol-bundle-results')!;
+  const bundleToggle = document.getElementById('sol-bundle-toggle') as HTMLInputElement;
+  bundleToggle.checked = bundleMode;
+  document.getElementById('sol-bundle-body')!.style.display = bundleMode ? '' : 'none';
+  bundleToggle.addEventListener('change', () => {
+    bundleMode = bundleToggle.checked;
+    document.getElementById('sol-bundle-body')!.style.display = bundleMode ? '' : 'none';
+  });
+  renderBundleWallets();
   caInput = document.getElementById('sol-ca-input') as HTMLInputElement;
   statusDot = document.getElementById('sol-status-dot')!;
   statusText = document.getElementById('sol-status-text')!;
@@ -286,11 +1493,83 @@ function initTradeUI() {
     btn.className = 'sol-sniper-btn sol-sniper-btn-sell';
     btn.textContent = `${percent}%`;
     btn.disabled = true;
-    btn.onclick = () => handleSell(percent);
+    btn.onclick = () => handleSell({ mode: 'percent', value: percent });
     sellGroup.appendChild(btn);
     return btn;
   });
 
+  // 自定义金额
+  customBuyInput = document.getElementById('sol-custom-buy') as HTMLInputElement;
+  customSellInput = document.getElementById('sol-custom-sell') as HTMLInputElement;
+  customSellMode = document.getElementById('sol-custom-sell-mode') as HTMLSelectElement;
+  const customBuyBtn = document.getElementById('sol-custom-buy-btn') as HTMLButtonElement;
+  const customSellBtn = document.getElementById('sol-custom-sell-btn') as HTMLButtonElement;
+  customBuyBtn.onclick = handleCustomBuy;
+  customSellBtn.onclick = handleCustomSell;
+  buyButtons.push(customBuyBtn);
+  sellButtons.push(customSellBtn);
+  customBuyInput.addEventListener('input', handleCustomInput);
+  customSellInput.addEventListener('input', handleCustomInput);
+  customSellMode.addEventListener('change', handleCustomInput);
+  customBuyInput.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter' && !customBuyBtn.disabled) handleCustomBuy();
+  });
+  customSellInput.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter' && !customSellBtn.disabled) handleCustomSell();
+  });
+
+  // 止盈止损
+  if (attachExits === null) attachExits = !!config.autoAttachExits;
+  const attachExitsInput = document.getElementById('sol-attach-exits') as HTMLInputElement;
+  attachExitsInput.checked = attachExits;
+  attachExitsInput.addEventListener('change', () => {
+    attachExits = attachExitsInput.checked;
+  });
+  document.getElementById('sol-attach-exits-text')!.textContent = `买入后自动止盈止损（${describeExitRules(config.exitRules)}）`;
+  const exitsToggle = document.getElementById('sol-exits-toggle') as HTMLInputElement;
+  exitsToggle.checked = exitsOpen;
+  document.getElementById('sol-exits-body')!.style.display = exitsOpen ? '' : 'none';
+  exitsToggle.addEventListener('change', () => {
+    exitsOpen = exitsToggle.checked;
+    document.getElementById('sol-exits-body')!.style.display = exitsOpen ? '' : 'none';
+    refreshExitPlans();
+  });
+  refreshExitPlans();
+
+  // 挂单
+  const ordersToggle = document.getElementById('sol-orders-toggle') as HTMLInputElement;
+  ordersToggle.checked = ordersOpen;
+  document.getElementById('sol-orders-body')!.style.display = ordersOpen ? '' : 'none';
+  ordersToggle.addEventListener('change', () => {
+    ordersOpen = ordersToggle.checked;
+    document.getElementById('sol-orders-body')!.style.display = ordersOpen ? '' : 'none';
+    refreshOrders();
+  });
+  document.getElementById('sol-order-side')!.addEventListener('change', renderOrderModeOptions);
+  document.getElementById('sol-order-add')!.onclick = handleCreateOrder;
+  document.getElementById('sol-order-market')!.onclick = refreshOrders;
+  renderOrderModeOptions();
+  refreshOrders();
+
+  // 分批买入 / 定投
+  const schedulesToggle = document.getElementById('sol-schedules-toggle') as HTMLInputElement;
+  schedulesToggle.checked = schedulesOpen;
+  document.getElementById('sol-schedules-body')!.style.display = schedulesOpen ? '' : 'none';
+  schedulesToggle.addEventListener('change', () => {
+    schedulesOpen = schedulesToggle.checked;
+    document.getElementById('sol-schedules-body')!.style.display = schedulesOpen ? '' : 'none';
+    refreshSchedules();
+  });
+  document.getElementById('sol-schedule-kind')!.addEventListener('change', renderScheduleForm);
+  document.getElementById('sol-schedule-add')!.onclick = handleCreateSchedule;
+  renderScheduleForm();
+  refreshSchedules();
+
+  // 启用交易开关
+  armBtn = document.getElementById('sol-arm-btn') as HTMLButtonElement;
+  armBtn.onclick = toggleArmed;
+  renderArmState();
+
   // 监听CA输入
   caInput.addEventListener('input', handleCAInput);
 }
@@ -525,6 +1804,8 @@ async function initializePanelContent() {
     // 根据钱包状态显示
     if (!walletState.address) {
       showNoWallet();
+    } else if (walletState.isLocked) {
+      showLocked();
     } else {
       initTradeUI();
       refreshBalance();
@@ -967,3 +2248,8 @@ chrome.runtime.onMessage.addListener((message) => {
     }
   }
 });
+
+// 页面卸载时清除本标签页的预加载缓存
+window.addEventListener('pagehide', () => {
+  if (currentCA) releasePreload(null);
+});
@@ -1,14 +1,59 @@
-import { Config, DEFAULT_CONFIG, Message, MessageResponse } from '../shared/types';
+import {
+  Config,
+  DEFAULT_ALLOWED_PROGRAMS,
+  DEFAULT_CONFIG,
+  DerivedAccount,
+  ImportResult,
+  LimitOrder,
+  Message,
+  MessageResponse,
+  NewWalletReveal,
+  PositionView,
+  Schedule,
+  TakeProfitLevel,
+  TradeExportFormat,
+  TradeHistoryFilter,
+  TradeRecord,
+  WalletState,
+} from '../shared/types';
+import {
+  ORDER_STATUS_LABELS,
+  SCHEDULE_STATUS_LABELS,
+  describeOrderAmount,
+  describeOrderTrigger,
+  describeSchedule,
+  describeScheduleProgress,
+  describeTrade,
+} from '../shared/orders';
 
 // 状态
 let config: Config = { ...DEFAULT_CONFIG };
-let walletState = { address: '', balance: 0, isLocked: false };
+const EMPTY_WALLET_STATE: WalletState = { address: '', balance: 0, isLocked: false, needsMigration: false, wallets: [] };
+let walletState: WalletState = EMPTY_WALLET_STATE;
+
+// 导入方式及助记词预览
+let importMode: 'key' | 'mnemonic' = 'key';
+let mnemonicAccounts: DerivedAccount[] = [];
+const selectedAccounts = new Set<number>();
+
+// 待备份的新钱包（仅在备份弹窗打开期间保留私钥）
+let pendingReveal: NewWalletReveal | null = null;
+let secretRevealed = false;
 
 // DOM元素
 const heliusKeyInput = document.getElementById('helius-key') as HTMLInputElement;
 const jupiterKeyInput = document.getElementById('jupiter-key') as HTMLInputElement;
 const slippageInput = document.getElementById('slippage') as HTMLInputElement;
 const priorityFeeInput = document.getElementById('priority-fee') as HTMLInputElement;
+const autoLockInput = document.getElementById('auto-lock') as HTMLInputElement;
+const maxBuyTradeInput = document.getElementById('max-buy-trade') as HTMLInputElement;
+const maxBuyTokenInput = document.getElementById('max-buy-token') as HTMLInputElement;
+const maxBuyDailyInput = document.getElementById('max-buy-daily') as HTMLInputElement;
+const minSolReserveInput = document.getElementById('min-sol-reserve') as HTMLInputElement;
+const exitTakeProfitsInput = document.getElementById('exit-take-profits') as HTMLInputElement;
+const exitStopLossInput = document.getElementById('exit-stop-loss') as HTMLInputElement;
+const exitTrailingStopInput = document.getElementById('exit-trailing-stop') as HTMLInputElement;
+const autoAttachExitsInput = document.getElementById('auto-attach-exits') as HTMLInputElement;
 
 const buyInputs = [
   document.getElementById('buy-1') as HTMLInputElement,
@@ -25,10 +70,30 @@ const sellInputs = [
 ];
 
 const walletSection = document.getElementById('wallet-status')!;
+const positionList = document.getElementById('position-list')!;
+const historyList = document.getElementById('history-list')!;
+const historyCaInput = document.getElementById('history-ca') as HTMLInputElement;
+const historyFromInput = document.getElementById('history-from') as HTMLInputElement;
+const historyToInput = document.getElementById('history-to') as HTMLInputElement;
+const historyStatusSelect = document.getElementById('history-status') as HTMLSelectElement;
+const orderList = document.getElementById('order-list')!;
+const scheduleList = document.getElementById('schedule-list')!;
 const importModal = document.getElementById('import-modal')!;
+const createModal = document.getElementById('create-modal')!;
+const backupModal = document.getElementById('backup-modal')!;
+const exportModal = document.getElementById('export-modal')!;
+const restoreModal = document.getElementById('restore-modal')!;
 const saveBtn = document.getElementById('btn-save')!;
 const allowedSitesInput = document.getElementById('allowed-sites') as HTMLTextAreaElement;
+const allowedProgramsInput = document.getElementById('allowed-programs') as HTMLTextAreaElement;
 const enableCacheInput = document.getElementById('enable-cache') as HTMLInputElement;
+const fastSendInput = document.getElementById('fast-send') as HTMLInputElement;
+const confirmBuyAboveInput = document.getElementById('confirm-buy-above') as HTMLInputElement;
+const confirmFullSellInput = document.getElementById('confirm-full-sell') as HTMLInputElement;
+const requireArmingInput = document.getElementById('require-arming') as HTMLInputElement;
+const mnemonicInput = document.getElementById('mnemonic') as HTMLTextAreaElement;
+const derivationPathSelect = document.getElementById('derivation-path') as HTMLSelectElement;
+const mnemonicAccountsList = document.getElementById('mnemonic-accounts')!;
 
 // 发送消息
 function sendMessage(message: Message): Promise<any> {
@@ -63,6 +128,11 @@ function fillForm() {
   jupiterKeyInput.value = config.jupiterApiKey || '';
   slippageInput.value = (config.slippage / 100).toString();
   priorityFeeInput.value = (config.priorityFee / 1_000_000_000).toFixed(4);
+  autoLockInput.value = (config.autoLockMinutes ?? 30).toString();
+  maxBuyTradeInput.value = (config.maxBuyPerTrade ?? 0).toString();
+  maxBuyTokenInput.value = (config.maxBuyPerToken ?? 0).toString();
+  maxBuyDailyInput.value = (config.maxBuyDaily ?? 0).toString();
+  minSolReserveInput.value = (config.minSolReserve ?? 0).toString();
 
   buyInputs.forEach((input, i) => {
     input.value = config.buyPresets[i].toString();
@@ -74,9 +144,34 @@ function fillForm() {
 
   // 填充允许的网站列表
   allowedSitesInput.value = (config.allowedSites || []).join('\n');
+  allowedProgramsInput.value = (config.allowedPrograms || []).join('\n');
   
   // 填充缓存开关
   enableCacheInput.checked = config.enableCache !== false; // 默认 true
+  fastSendInput.checked = !!config.fastSend;
+
+  // 填充交易确认设置
+  confirmBuyAboveInput.value = (config.confirmBuyAbove ?? 0).toString();
+  confirmFullSellInput.checked = !!config.confirmFullSell;
+  requireArmingInput.checked = !!config.requireArming;
+
+  // 填充止盈止损设置
+  const exitRules = config.exitRules || DEFAULT_CONFIG.exitRules;
+  exitTakeProfitsInput.value = exitRules.takeProfits.map((l) => `${l.gainPct}:${l.sellPct}`).join(', ');
+  exitStopLossInput.value = exitRules.stopLossPct.toString();
+  exitTrailingStopInput.value = exitRules.trailingStopPct.toString();
+  autoAttachExitsInput.checked = !!config.autoAttachExits;
+}
+
+// 解析止盈档位，例如 "100:50, 300:50"
+function parseTakeProfits(text: string): TakeProfitLevel[] | null {
+  const levels: TakeProfitLevel[] = [];
+  for (const part of text.split(/[,，\n]/).map((p) => p.trim()).filter(Boolean)) {
+    const [gain, sell] = part.split(/[:：]/).map((v) => parseFloat(v));
+    if (!(gain > 0) || !(sell > 0 && sell <= 100)) return null;
+    levels.push({ gainPct: gain, sellPct: sell });
+  }
+  return levels.sort((a, b) => a.gainPct - b.gainPct);
 }
 
 // 收集表单数据
@@ -87,16 +182,261 @@ function collectFormData(): Partial<Config> {
     .map(line => line.trim())
     .filter(line => line.length > 0);
 
+  // 解析允许的程序列表（留空恢复默认）
+  const allowedPrograms = allowedProgramsInput.value
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+
   return {
     heliusApiKey: heliusKeyInput.value.trim(),
     jupiterApiKey: jupiterKeyInput.value.trim(),
     slippage: Math.round(parseFloat(slippageInput.value) * 100),
     priorityFee: Math.round(parseFloat(priorityFeeInput.value) * 1_000_000_000),
+    autoLockMinutes: Math.max(0, parseInt(autoLockInput.value, 10) || 0),
+    maxBuyPerTrade: Math.max(0, parseFloat(maxBuyTradeInput.value) || 0),
+    maxBuyPerToken: Math.max(0, parseFloat(maxBuyTokenInput.value) || 0),
+    maxBuyDaily: Math.max(0, parseFloat(maxBuyDailyInput.value) || 0),
+    minSolReserve: Math.max(0, parseFloat(minSolReserveInput.value) || 0),
     buyPresets: buyInputs.map((input) => parseFloat(input.value)) as [number, number, number, number],
     sellPresets: sellInputs.map((input) => parseFloat(input.value)) as [number, number, number, number],
     allowedSites,
     enableCache: enableCacheInput.checked,
+    fastSend: fastSendInput.checked,
+    confirmBuyAbove: Math.max(0, parseFloat(confirmBuyAboveInput.value) || 0),
+    confirmFullSell: confirmFullSellInput.checked,
+    requireArming: requireArmingInput.checked,
+    allowedPrograms: allowedPrograms.length > 0 ? allowedPrograms : DEFAULT_ALLOWED_PROGRAMS,
+    exitRules: {
+      takeProfits: parseTakeProfits(exitTakeProfitsInput.value) || [],
+      stopLossPct: Math.min(100, Math.max(0, parseFloat(exitStopLossInput.value) || 0)),
+      trailingStopPct: Math.min(100, Math.max(0, parseFloat(exitTrailingStopInput.value) || 0)),
+    },
+    autoAttachExits: autoAttachExitsInput.checked,
+  };
+}
+
+// 缩短地址显示
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-6)}`;
+}
+
+// 转义用户输入的文本（钱包名称）
+function escapeHtml(text: string): string {
+  const div = document.createElement('div');
+  div.textContent = text;
+  return div.innerHTML;
+}
+
+// 打开导入弹窗（已有钱包时无需再次确认密码）
+function openImportModal() {
+  const confirmGroup = document.getElementById('import-password-confirm-group')!;
+  confirmGroup.style.display = walletState.wallets.length > 0 ? 'none' : '';
+  importModal.classList.add('active');
+}
+
+// 切换导入方式
+function setImportMode(mode: 'key' | 'mnemonic') {
+  importMode = mode;
+  document.querySelectorAll<HTMLElement>('[data-import-mode]').forEach((btn) => {
+    btn.classList.toggle('active', btn.dataset.importMode === mode);
+  });
+  document.getElementById('private-key-group')!.style.display = mode === 'key' ? '' : 'none';
+  document.getElementById('mnemonic-group')!.style.display = mode === 'mnemonic' ? '' : 'none';
+}
+
+// 清空助记词预览（助记词或路径变化时）
+function resetMnemonicPreview() {
+  mnemonicAccounts = [];
+  selectedAccounts.clear();
+  renderMnemonicAccounts();
+}
+
+// 渲染助记词派生的账户列表
+function renderMnemonicAccounts() {
+  if (mnemonicAccounts.length === 0) {
+    mnemonicAccountsList.innerHTML = '';
+    return;
+  }
+
+  const items = mnemonicAccounts.map((account) => `
+    <label class="mnemonic-account ${account.imported ? 'imported' : ''}">
+      <input type="checkbox" data-index="${account.index}"
+        ${selectedAccounts.has(account.index) ? 'checked' : ''} ${account.imported ? 'disabled' : ''}>
+      <div class="mnemonic-account-main">
+        <span class="wallet-address">${shortAddress(account.address)}</span>
+        <span class="mnemonic-account-path">${account.path}${account.imported ? ' · 已导入' : ''}</span>
+      </div>
+      <span class="wallet-balance">${account.balance.toFixed(4)} SOL</span>
+    </label>
+  `).join('');
+
+  // 旧版路径只有一个账户
+  const canLoadMore = derivationPathSelect.value !== 'legacy';
+  mnemonicAccountsList.innerHTML = items +
+    (canLoadMore ? '<button class="btn-link" id="btn-more-accounts">加载更多</button>' : '');
+
+  mnemonicAccountsList.querySelectorAll<HTMLInputElement>('input[data-index]').forEach((checkbox) => {
+    checkbox.onchange = () => {
+      const index = Number(checkbox.dataset.index);
+      if (checkbox.checked) {
+        selectedAccounts.add(index);
+      } else {
+        selectedAccounts.delete(index);
+      }
+    };
+  });
+  const moreBtn = document.getElementById('btn-more-accounts');
+  if (moreBtn) moreBtn.onclick = () => previewMnemonic(true);
+}
+
+// 预览助记词派生的账户
+async function previewMnemonic(more = false) {
+  const mnemonic = mnemonicInput.value.trim();
+  if (!mnemonic) {
+    showToast('请输入助记词', 'error');
+    return;
+  }
+
+  try {
+    const accounts: DerivedAccount[] = await sendMessage({
+      type: 'PREVIEW_MNEMONIC',
+      payload: {
+        mnemonic,
+        path: derivationPathSelect.value,
+        start: more ? mnemonicAccounts.length : 0,
+      },
+    });
+
+    if (more) {
+      mnemonicAccounts = [...mnemonicAccounts, ...accounts];
+    } else {
+      mnemonicAccounts = accounts;
+      selectedAccounts.clear();
+      // 默认选中第一个未导入的账户
+      const first = accounts.find((a) => !a.imported);
+      if (first) selectedAccounts.add(first.index);
+    }
+    renderMnemonicAccounts();
+  } catch (error: any) {
+    console.error('预览助记词失败:', error);
+    showToast(error.message || '预览失败', 'error');
+  }
+}
+
+// 打开创建钱包弹窗
+function openCreateModal() {
+  const confirmGroup = document.getElementById('create-password-confirm-group')!;
+  confirmGroup.style.display = walletState.wallets.length > 0 ? 'none' : '';
+  createModal.classList.add('active');
+}
+
+// 创建钱包
+async function createWallet() {
+  const labelInput = document.getElementById('create-label') as HTMLInputElement;
+  const passwordInput = document.getElementById('create-password') as HTMLInputElement;
+  const confirmInput = document.getElementById('create-password-confirm') as HTMLInputElement;
+  const password = passwordInput.value;
+
+  if (password.length < 8) {
+    showToast('密码至少需要8个字符', 'error');
+    return;
+  }
+  if (walletState.wallets.length === 0 && password !== confirmInput.value) {
+    showToast('两次输入的密码不一致', 'error');
+    return;
+  }
+
+  try {
+    const reveal: NewWalletReveal = await sendMessage({
+      type: 'CREATE_WALLET',
+      payload: { password, label: labelInput.value.trim() },
+    });
+
+    labelInput.value = '';
+    passwordInput.value = '';
+    confirmInput.value = '';
+    createModal.classList.remove('active');
+
+    await refreshWalletState();
+    openBackupModal(reveal);
+  } catch (error: any) {
+    console.error('创建钱包失败:', error);
+    showToast(error.message || '创建失败', 'error');
+  }
+}
+
+// 打开新钱包备份弹窗（先展示私钥，再校验）
+function openBackupModal(reveal: NewWalletReveal) {
+  pendingReveal = reveal;
+  secretRevealed = false;
+
+  const secretBox = document.getElementById('backup-secret')!;
+  secretBox.textContent = '点击显示私钥';
+  secretBox.classList.add('hidden');
+  secretBox.onclick = () => {
+    if (!pendingReveal) return;
+    secretBox.textContent = pendingReveal.secretKey;
+    secretBox.classList.remove('hidden');
+    secretRevealed = true;
   };
+
+  (document.getElementById('backup-saved') as HTMLInputElement).checked = false;
+  document.getElementById('backup-challenge')!.innerHTML = reveal.positions.map((position, i) => `
+    <div class="form-group">
+      <label for="backup-answer-${i}">第 ${position} 位</label>
+      <input type="text" id="backup-answer-${i}" maxlength="1" autocomplete="off">
+    </div>
+  `).join('');
+
+  setBackupStep('reveal');
+  backupModal.classList.add('active');
+}
+
+// 切换备份步骤
+function setBackupStep(step: 'reveal' | 'verify') {
+  document.getElementById('backup-reveal-step')!.style.display = step === 'reveal' ? '' : 'none';
+  document.getElementById('backup-verify-step')!.style.display = step === 'verify' ? '' : 'none';
+  if (step === 'verify') {
+    // 校验时隐藏私钥
+    const secretBox = document.getElementById('backup-secret')!;
+    secretBox.textContent = '点击显示私钥';
+    secretBox.classList.add('hidden');
+    (document.getElementById('backup-answer-0') as HTMLInputElement | null)?.focus();
+  }
+}
+
+// 关闭备份弹窗并清除页面中的私钥
+function closeBackupModal() {
+  pendingReveal = null;
+  document.getElementById('backup-secret')!.textContent = '';
+  document.getElementById('backup-challenge')!.innerHTML = '';
+  backupModal.classList.remove('active');
+}
+
+// 提交备份校验
+async function confirmWalletBackup() {
+  if (!pendingReveal) return;
+
+  const answers = pendingReveal.positions.map((_, i) =>
+    (document.getElementById(`backup-answer-${i}`) as HTMLInputElement).value
+  );
+  if (answers.some((a) => !a)) {
+    showToast('请填写所有字符', 'error');
+    return;
+  }
+
+  try {
+    walletState = await sendMessage({
+      type: 'CONFIRM_WALLET_BACKUP',
+      payload: { address: pendingReveal.address, answers },
+    });
+    closeBackupModal();
+    updateWalletStatus();
+    showToast('备份已确认，钱包可以使用了', 'success');
+  } catch (error: any) {
+    showToast(error.message || '校验失败', 'error');
+  }
 }
 
 // 更新钱包状态显示
@@ -106,34 +446,139 @@ function updateWalletStatus() {
       <div class="wallet-none">
         <p>尚未导入钱包</p>
         <button class="btn btn-primary btn-small" id="btn-import">导入钱包</button>
+        <button class="btn btn-secondary btn-small" id="btn-create">创建钱包</button>
       </div>
     `;
-    document.getElementById('btn-import')!.onclick = () => {
-      importModal.classList.add('active');
+    document.getElementById('btn-import')!.onclick = openImportModal;
+    document.getElementById('btn-create')!.onclick = openCreateModal;
+  } else if (walletState.isLocked) {
+    const hint = walletState.needsMigration
+      ? '旧版钱包使用默认密码加密，请设置新密码（至少8个字符）'
+      : `钱包已锁定，请输入密码解锁（共 ${walletState.wallets.length} 个钱包）`;
+    walletSection.innerHTML = `
+      <div class="wallet-info">
+        <span class="wallet-address">${shortAddress(walletState.address)}</span>
+        <span class="wallet-locked">🔒 已锁定</span>
+      </div>
+      <div class="form-group" style="margin-top: 10px;">
+        <input type="password" id="unlock-password" placeholder="${walletState.needsMigration ? '设置新密码' : '输入密码'}">
+        <small>${hint}</small>
+      </div>
+      <button class="btn btn-primary btn-small" id="btn-unlock">${walletState.needsMigration ? '设置密码并解锁' : '解锁'}</button>
+    `;
+    const passwordInput = document.getElementById('unlock-password') as HTMLInputElement;
+    passwordInput.onkeydown = (e) => {
+      if (e.key === 'Enter') unlockWallet();
     };
+    document.getElementById('btn-unlock')!.onclick = unlockWallet;
   } else {
-    const balance = walletState.balance || 0;
+    const wallets = walletState.wallets;
     walletSection.innerHTML = `
-      <div class="wallet-info">
-        <span class="wallet-address">${walletState.address.slice(0, 8)}...${walletState.address.slice(-8)}</span>
-        <span class="wallet-balance">${balance.toFixed(4)} SOL</span>
+      <div class="wallet-list">
+        ${wallets.map((w, i) => `
+          <div class="wallet-item${w.isActive ? ' active' : ''}" data-address="${w.address}">
+            <div class="wallet-item-main">
+              <span class="wallet-label">${escapeHtml(w.label)}</span>
+              <span class="wallet-address">${shortAddress(w.address)}</span>
+            </div>
+            <span class="wallet-balance">${(w.balance || 0).toFixed(4)} SOL</span>
+            <div class="wallet-item-actions">
+              ${w.isActive ? '<span class="wallet-active-tag">使用中</span>' : '<button class="btn-link" data-action="activate">使用</button>'}
+              ${w.needsBackup ? '<button class="btn-link wallet-backup-tag" data-action="backup">未备份</button>' : ''}
+              <button class="btn-link" data-action="up" ${i === 0 ? 'disabled' : ''}>↑</button>
+              <button class="btn-link" data-action="down" ${i === wallets.length - 1 ? 'disabled' : ''}>↓</button>
+              <button class="btn-link" data-action="rename">改名</button>
+              <button class="btn-link danger" data-action="remove">删除</button>
+            </div>
+          </div>
+        `).join('')}
       </div>
       <div style="margin-top: 10px;">
-        <button class="btn btn-danger btn-small" id="btn-remove-wallet">删除钱包</button>
+        <button class="btn btn-primary btn-small" id="btn-import">导入钱包</button>
+        <button class="btn btn-secondary btn-small" id="btn-create">创建钱包</button>
+        <button class="btn btn-secondary btn-small" id="btn-lock-wallet">锁定</button>
       </div>
     `;
-    document.getElementById('btn-remove-wallet')!.onclick = async () => {
-      if (confirm('确定要删除此钱包吗？')) {
-        try {
-          await sendMessage({ type: 'REMOVE_WALLET' });
-          walletState = { address: '', balance: 0, isLocked: false };
-          updateWalletStatus();
-          showToast('钱包已删除', 'success');
-        } catch (error: any) {
-          showToast(error.message, 'error');
-        }
+    document.getElementById('btn-import')!.onclick = openImportModal;
+    document.getElementById('btn-create')!.onclick = openCreateModal;
+    document.getElementById('btn-lock-wallet')!.onclick = async () => {
+      try {
+        await sendMessage({ type: 'LOCK_WALLET' });
+        await refreshWalletState();
+        showToast('钱包已锁定', 'success');
+      } catch (error: any) {
+        showToast(error.message, 'error');
       }
     };
+    walletSection.querySelectorAll<HTMLButtonElement>('.wallet-item button').forEach((btn) => {
+      const address = (btn.closest('.wallet-item') as HTMLElement).dataset.address!;
+      btn.onclick = () => handleWalletAction(btn.dataset.action!, address);
+    });
+  }
+}
+
+// 钱包列表操作
+async function handleWalletAction(action: string, address: string) {
+  const addresses = walletState.wallets.map((w) => w.address);
+  const index = addresses.indexOf(address);
+  const target = walletState.wallets[index];
+
+  try {
+    switch (action) {
+      case 'activate':
+        walletState = await sendMessage({ type: 'SET_ACTIVE_WALLET', payload: { address } });
+        showToast(`已切换到 ${target.label}`, 'success');
+        break;
+
+      case 'up':
+      case 'down': {
+        const swapWith = action === 'up' ? index - 1 : index + 1;
+        if (swapWith < 0 || swapWith >= addresses.length) return;
+        [addresses[index], addresses[swapWith]] = [addresses[swapWith], addresses[index]];
+        walletState = await sendMessage({ type: 'REORDER_WALLETS', payload: { addresses } });
+        break;
+      }
+
+      case 'rename': {
+        const label = prompt('输入新的钱包名称', target.label);
+        if (label === null || !label.trim()) return;
+        walletState = await sendMessage({ type: 'RENAME_WALLET', payload: { address, label: label.trim() } });
+        break;
+      }
+
+      case 'backup':
+        openBackupModal(await sendMessage({ type: 'REVEAL_NEW_WALLET', payload: { address } }));
+        return;
+
+      case 'remove':
+        if (!confirm(`确定要删除钱包 ${target.label} (${shortAddress(address)}) 吗？\n请确认已备份私钥。`)) return;
+        walletState = await sendMessage({ type: 'REMOVE_WALLET', payload: { address } });
+        showToast('钱包已删除', 'success');
+        break;
+    }
+    updateWalletStatus();
+  } catch (error: any) {
+    showToast(error.message, 'error');
+  }
+}
+
+// 解锁钱包
+async function unlockWallet() {
+  const passwordInput = document.getElementById('unlock-password') as HTMLInputElement;
+  const password = passwordInput.value;
+
+  if (!password) {
+    showToast('请输入密码', 'error');
+    return;
+  }
+
+  try {
+    walletState = await sendMessage({ type: 'UNLOCK_WALLET', payload: { password } });
+    updateWalletStatus();
+    showToast('钱包已解锁', 'success');
+  } catch (error: any) {
+    passwordInput.value = '';
+    showToast(error.message || '解锁失败', 'error');
   }
 }
 
@@ -151,6 +596,11 @@ async function saveSettings() {
     return;
   }
 
+  if (parseTakeProfits(exitTakeProfitsInput.value) === null) {
+    showToast('止盈档位格式错误，例如 100:50, 300:50', 'error');
+    return;
+  }
+
   try {
     await sendMessage({ type: 'SAVE_CONFIG', payload: data });
     config = { ...config, ...data };
@@ -171,41 +621,388 @@ async function saveSettings() {
 // 导入钱包
 async function importWallet() {
   const privateKeyInput = document.getElementById('private-key') as HTMLInputElement;
+  const passwordInput = document.getElementById('import-password') as HTMLInputElement;
+  const confirmInput = document.getElementById('import-password-confirm') as HTMLInputElement;
+  const labelInput = document.getElementById('wallet-label') as HTMLInputElement;
   const privateKey = privateKeyInput.value.trim();
+  const password = passwordInput.value;
+  const isFirstWallet = walletState.wallets.length === 0;
 
-  if (!privateKey) {
+  if (importMode === 'key' && !privateKey) {
     showToast('请输入私钥', 'error');
     return;
   }
 
-  try {
-    const result = await sendMessage({
-      type: 'IMPORT_WALLET',
-      payload: { privateKey },
-    });
+  if (importMode === 'mnemonic' && selectedAccounts.size === 0) {
+    showToast('请先预览并选择要导入的账户', 'error');
+    return;
+  }
 
-    walletState = {
-      address: result.address,
-      balance: 0,
-      isLocked: false, // 锁定功能已禁用
-    };
+  if (password.length < 8) {
+    showToast('密码至少需要8个字符', 'error');
+    return;
+  }
+
+  if (isFirstWallet && password !== confirmInput.value) {
+    showToast('两次输入的密码不一致', 'error');
+    return;
+  }
+
+  try {
+    if (importMode === 'mnemonic') {
+      await sendMessage({
+        type: 'IMPORT_MNEMONIC',
+        payload: {
+          mnemonic: mnemonicInput.value.trim(),
+          path: derivationPathSelect.value,
+          indexes: [...selectedAccounts],
+          password,
+          label: labelInput.value.trim(),
+        },
+      });
+    } else {
+      await sendMessage({
+        type: 'IMPORT_WALLET',
+        payload: { privateKey, password, label: labelInput.value.trim() },
+      });
+    }
 
     // 清空输入框
     privateKeyInput.value = '';
+    mnemonicInput.value = '';
+    resetMnemonicPreview();
+    passwordInput.value = '';
+    confirmInput.value = '';
+    labelInput.value = '';
 
     importModal.classList.remove('active');
-    updateWalletStatus();
     showToast('钱包导入成功!', 'success');
 
-    // 刷新余额
-    setTimeout(refreshWalletState, 500);
+    // 刷新钱包列表和余额
+    await refreshWalletState();
   } catch (error: any) {
     console.error('导入钱包失败:', error);
     showToast(error.message || '导入失败', 'error');
   }
 }
 
-// 锁定功能已移除
+// 导出备份
+async function exportBackup() {
+  const passwordInput = document.getElementById('export-password') as HTMLInputElement;
+  const confirmInput = document.getElementById('export-password-confirm') as HTMLInputElement;
+  const password = passwordInput.value;
+
+  if (password.length < 8) {
+    showToast('备份密码至少需要8个字符', 'error');
+    return;
+  }
+  if (password !== confirmInput.value) {
+    showToast('两次输入的密码不一致', 'error');
+    return;
+  }
+
+  try {
+    const { filename, content } = await sendMessage({ type: 'EXPORT_BACKUP', payload: { password } });
+    const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+
+    passwordInput.value = '';
+    confirmInput.value = '';
+    exportModal.classList.remove('active');
+    showToast('备份已导出', 'success');
+  } catch (error: any) {
+    console.error('导出备份失败:', error);
+    showToast(error.message || '导出失败', 'error');
+  }
+}
+
+// 恢复备份
+async function restoreBackup() {
+  const fileInput = document.getElementById('restore-file') as HTMLInputElement;
+  const backupPasswordInput = document.getElementById('restore-backup-password') as HTMLInputElement;
+  const walletPasswordInput = document.getElementById('restore-wallet-password') as HTMLInputElement;
+  const modeSelect = document.getElementById('restore-mode') as HTMLSelectElement;
+  const file = fileInput.files?.[0];
+
+  if (!file) {
+    showToast('请选择备份文件', 'error');
+    return;
+  }
+  if (!backupPasswordInput.value) {
+    showToast('请输入备份密码', 'error');
+    return;
+  }
+  if (walletPasswordInput.value.length < 8) {
+    showToast('钱包密码至少需要8个字符', 'error');
+    return;
+  }
+  if (modeSelect.value === 'replace' && !confirm('替换模式将删除现有的所有钱包和设置，确定继续吗？')) {
+    return;
+  }
+
+  try {
+    const result = await sendMessage({
+      type: 'RESTORE_BACKUP',
+      payload: {
+        content: await file.text(),
+        backupPassword: backupPasswordInput.value,
+        walletPassword: walletPasswordInput.value,
+        mode: modeSelect.value,
+      },
+    });
+
+    fileInput.value = '';
+    backupPasswordInput.value = '';
+    walletPasswordInput.value = '';
+    restoreModal.classList.remove('active');
+    const positions = result.positionsRestored ? `，恢复 ${result.positionsRestored} 条持仓` : '';
+    const trades = result.tradesRestored ? `，${result.tradesRestored} 条交易记录` : '';
+    showToast(`备份已恢复，新增 ${result.walletsAdded} 个钱包${positions}${trades}`, 'success');
+
+    config = await sendMessage({ type: 'GET_CONFIG' });
+    fillForm();
+    await refreshWalletState();
+    refreshPositions();
+    refreshHistory();
+  } catch (error: any) {
+    console.error('恢复备份失败:', error);
+    showToast(error.message || '恢复失败', 'error');
+  }
+}
+
+// 盈亏显示（SOL，保留4位小数）
+function formatPnl(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(4)}`;
+}
+
+// 持仓列表（所有钱包）
+async function refreshPositions() {
+  let positions: PositionView[];
+  try {
+    positions = await sendMessage({ type: 'LIST_POSITIONS' });
+  } catch (error: any) {
+    positionList.innerHTML = `<div class="order-empty">${escapeHtml(error.message)}</div>`;
+    return;
+  }
+
+  if (positions.length === 0) {
+    positionList.innerHTML = '<div class="order-empty">暂无持仓记录</div>';
+    return;
+  }
+
+  const labels = new Map(walletState.wallets.map((w) => [w.address, w.label]));
+  positionList.innerHTML = positions.map((position) => {
+    const held = position.rawHeld / Math.pow(10, position.decimals);
+    const open = position.rawHeld > 0;
+    const pnl = (position.unrealizedPnl || 0) + position.realizedPnl;
+    const value = !open
+      ? '已清仓'
+      : position.value !== undefined
+        ? `价值 ${position.value.toFixed(4)} SOL · 未实现 ${formatPnl(position.unrealizedPnl!)}`
+        : '估值失败';
+    return `
+    <div class="order-item position-item ${open ? 'active' : ''}">
+      <div class="order-item-main">
+        <span class="order-summary">${shortAddress(position.ca)}</span>
+        <span class="wallet-address">${escapeHtml(labels.get(position.owner) || shortAddress(position.owner))}</span>
+      </div>
+      <div class="order-item-actions">
+        <span class="position-pnl ${pnl >= 0 ? 'profit' : 'loss'}">${formatPnl(pnl)} SOL</span>
+      </div>
+      ${open ? `<div class="order-detail">持仓 ${held.toLocaleString(undefined, { maximumFractionDigits: 4 })} 枚 · 成本 ${position.costBasis.toFixed(4)} SOL · 均价 ${Number(position.avgCost.toPrecision(6))}</div>` : ''}
+      <div class="order-detail">${value} · 已实现 ${formatPnl(position.realizedPnl)}</div>
+      <div class="order-detail">买入 ${position.buys} 笔 ${position.solIn.toFixed(4)} SOL · 卖出 ${position.sells} 笔 ${position.solOut.toFixed(4)} SOL</div>
+      ${position.valueError ? `<div class="order-detail error">${escapeHtml(position.valueError)}</div>` : ''}
+    </div>
+  `;
+  }).join('');
+}
+
+// 从链上导入当前钱包的历史兑换
+async function importHistory() {
+  if (!walletState.address) {
+    showToast('请先导入钱包', 'error');
+    return;
+  }
+  const btn = document.getElementById('btn-import-history') as HTMLButtonElement;
+  btn.disabled = true;
+  btn.textContent = '导入中...';
+  try {
+    const result: ImportResult = await sendMessage({ type: 'IMPORT_HISTORY', payload: { address: walletState.address } });
+    const more = result.remaining > 0 ? `，还有 ${result.remaining} 笔待处理，可再次导入继续` : '';
+    showToast(`检查 ${result.scanned} 笔交易，导入 ${result.imported} 笔兑换${more}`, 'success');
+    refreshPositions();
+    refreshHistory();
+  } catch (error: any) {
+    showToast(error.message || '导入失败', 'error');
+  } finally {
+    btn.disabled = false;
+    btn.textContent = '从链上导入';
+  }
+}
+
+// 交易记录筛选条件（日期按本地时间，结束日期包含当天）
+function readHistoryFilter(): TradeHistoryFilter {
+  const filter: TradeHistoryFilter = {};
+  const ca = historyCaInput.value.trim();
+  if (ca) filter.ca = ca;
+  if (historyFromInput.value) filter.from = new Date(`${historyFromInput.value}T00:00:00`).getTime();
+  if (historyToInput.value) filter.to = new Date(`${historyToInput.value}T23:59:59.999`).getTime();
+  if (historyStatusSelect.value) filter.status = historyStatusSelect.value as TradeHistoryFilter['status'];
+  return filter;
+}
+
+// 交易记录列表
+async function refreshHistory() {
+  let trades: TradeRecord[];
+  try {
+    trades = await sendMessage({ type: 'LIST_TRADES', payload: { ...readHistoryFilter(), limit: 50 } });
+  } catch (error: any) {
+    historyList.innerHTML = `<div class="order-empty">${escapeHtml(error.message)}</div>`;
+    return;
+  }
+
+  if (trades.length === 0) {
+    historyList.innerHTML = '<div class="order-empty">暂无交易记录</div>';
+    return;
+  }
+
+  historyList.innerHTML = trades.map((trade) => `
+    <div class="order-item ${trade.status === 'success' ? 'filled' : 'failed'}">
+      <div class="order-item-main">
+        <span class="order-summary">${escapeHtml(describeTrade(trade))}</span>
+        <span class="wallet-address">${shortAddress(trade.ca)} · ${new Date(trade.timestamp).toLocaleString()}</span>
+      </div>
+      <div class="order-item-actions">
+        <span class="order-status">${trade.status === 'success' ? '成功' : '失败'}</span>
+        ${trade.signature ? `<a class="btn-link" href="https://solscan.io/tx/${trade.signature}" target="_blank" rel="noopener noreferrer">查看交易</a>` : ''}
+      </div>
+      <div class="order-detail">${[
+        trade.priceImpactPct !== undefined ? `价格影响 ${trade.priceImpactPct.toFixed(2)}%` : '',
+        trade.cached ? '缓存交易' : '',
+        trade.imported ? '链上导入' : '',
+        trade.timings['总耗时'] !== undefined ? `耗时 ${trade.timings['总耗时'].toFixed(0)}ms` : '',
+      ].filter(Boolean).join(' · ')}</div>
+      ${trade.error ? `<div class="order-detail error">${escapeHtml(trade.error)}</div>` : ''}
+    </div>
+  `).join('');
+}
+
+// 导出交易记录（按当前筛选条件）
+async function exportTrades(format: TradeExportFormat) {
+  try {
+    const { filename, content } = await sendMessage({ type: 'EXPORT_TRADES', payload: { format, filter: readHistoryFilter() } });
+    const type = format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json';
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    showToast('交易记录已导出', 'success');
+  } catch (error: any) {
+    showToast(error.message || '导出失败', 'error');
+  }
+}
+
+// 挂单列表
+async function refreshOrders() {
+  let orders: LimitOrder[];
+  try {
+    orders = await sendMessage({ type: 'LIST_ORDERS' });
+  } catch (error: any) {
+    orderList.innerHTML = `<div class="order-empty">${escapeHtml(error.message)}</div>`;
+    return;
+  }
+
+  if (orders.length === 0) {
+    orderList.innerHTML = '<div class="order-empty">暂无挂单</div>';
+    return;
+  }
+
+  orderList.innerHTML = orders.map((order) => `
+    <div class="order-item ${order.status}" data-id="${order.id}">
+      <div class="order-item-main">
+        <span class="order-summary">${escapeHtml(describeOrderAmount(order))} · ${escapeHtml(describeOrderTrigger(order))}</span>
+        <span class="wallet-address">${shortAddress(order.ca)}</span>
+      </div>
+      <div class="order-item-actions">
+        <span class="order-status">${ORDER_STATUS_LABELS[order.status]}</span>
+        ${order.status === 'pending' ? '<button class="btn-link danger" data-action="cancel">取消</button>' : ''}
+        ${order.signature ? `<a class="btn-link" href="https://solscan.io/tx/${order.signature}" target="_blank" rel="noopener noreferrer">查看交易</a>` : ''}
+      </div>
+      ${order.reason ? `<div class="order-detail">触发原因: ${escapeHtml(order.reason)}</div>` : ''}
+      ${order.error ? `<div class="order-detail error">${escapeHtml(order.error)}</div>` : ''}
+    </div>
+  `).join('');
+
+  orderList.querySelectorAll<HTMLButtonElement>('button[data-action="cancel"]').forEach((btn) => {
+    const id = (btn.closest('.order-item') as HTMLElement).dataset.id!;
+    btn.onclick = async () => {
+      try {
+        await sendMessage({ type: 'CANCEL_ORDER', payload: { id } });
+        showToast('挂单已取消', 'success');
+      } catch (error: any) {
+        showToast(error.message, 'error');
+      }
+      refreshOrders();
+    };
+  });
+}
+
+// 分批买入和定投列表
+async function refreshSchedules() {
+  let schedules: Schedule[];
+  try {
+    schedules = await sendMessage({ type: 'LIST_SCHEDULES' });
+  } catch (error: any) {
+    scheduleList.innerHTML = `<div class="order-empty">${escapeHtml(error.message)}</div>`;
+    return;
+  }
+
+  if (schedules.length === 0) {
+    scheduleList.innerHTML = '<div class="order-empty">暂无分批买入或定投</div>';
+    return;
+  }
+
+  scheduleList.innerHTML = schedules.map((schedule) => {
+    const running = schedule.status === 'active' || schedule.status === 'paused';
+    const lastRun = schedule.history[schedule.history.length - 1];
+    return `
+    <div class="order-item ${schedule.status}" data-id="${schedule.id}">
+      <div class="order-item-main">
+        <span class="order-summary">${escapeHtml(describeSchedule(schedule))}</span>
+        <span class="wallet-address">${shortAddress(schedule.ca)}</span>
+      </div>
+      <div class="order-item-actions">
+        <span class="order-status">${SCHEDULE_STATUS_LABELS[schedule.status]}</span>
+        ${schedule.status === 'active' ? '<button class="btn-link" data-action="PAUSE_SCHEDULE">暂停</button>' : ''}
+        ${schedule.status === 'paused' ? '<button class="btn-link" data-action="RESUME_SCHEDULE">继续</button>' : ''}
+        ${running ? '<button class="btn-link danger" data-action="CANCEL_SCHEDULE">取消</button>' : ''}
+      </div>
+      <div class="order-detail">${escapeHtml(describeScheduleProgress(schedule))}</div>
+      ${schedule.reason ? `<div class="order-detail">${escapeHtml(schedule.reason)}</div>` : ''}
+      ${lastRun?.error ? `<div class="order-detail error">第 ${lastRun.index} 次: ${escapeHtml(lastRun.error)}</div>` : ''}
+    </div>
+  `;
+  }).join('');
+
+  scheduleList.querySelectorAll<HTMLButtonElement>('button[data-action]').forEach((btn) => {
+    const id = (btn.closest('.order-item') as HTMLElement).dataset.id!;
+    btn.onclick = async () => {
+      try {
+        await sendMessage({ type: btn.dataset.action as Message['type'], payload: { id } });
+      } catch (error: any) {
+        showToast(error.message, 'error');
+      }
+      refreshSchedules();
+    };
+  });
+}
 
 // 刷新钱包状态
 async function refreshWalletState() {
@@ -228,6 +1025,10 @@ async function init() {
 
     fillForm();
     updateWalletStatus();
+    refreshPositions();
+    refreshHistory();
+    refreshOrders();
+    refreshSchedules();
   } catch (error) {
     console.error('初始化失败:', error);
     // 即使失败也显示默认表单
@@ -243,6 +1044,60 @@ async function init() {
   };
 
   document.getElementById('btn-confirm-import')!.onclick = importWallet;
+
+  // 助记词导入
+  document.querySelectorAll<HTMLElement>('[data-import-mode]').forEach((btn) => {
+    btn.onclick = () => setImportMode(btn.dataset.importMode as 'key' | 'mnemonic');
+  });
+  document.getElementById('btn-preview-mnemonic')!.onclick = () => previewMnemonic();
+  mnemonicInput.oninput = resetMnemonicPreview;
+  derivationPathSelect.onchange = resetMnemonicPreview;
+
+  // 创建钱包
+  document.getElementById('btn-cancel-create')!.onclick = () => {
+    createModal.classList.remove('active');
+  };
+  document.getElementById('btn-confirm-create')!.onclick = createWallet;
+  document.getElementById('btn-backup-later')!.onclick = closeBackupModal;
+  document.getElementById('btn-backup-next')!.onclick = () => {
+    if (!secretRevealed) {
+      showToast('请先点击显示并保存私钥', 'error');
+      return;
+    }
+    if (!(document.getElementById('backup-saved') as HTMLInputElement).checked) {
+      showToast('请先保存私钥并勾选确认', 'error');
+      return;
+    }
+    setBackupStep('verify');
+  };
+  document.getElementById('btn-backup-back')!.onclick = () => setBackupStep('reveal');
+  document.getElementById('btn-backup-confirm')!.onclick = confirmWalletBackup;
+
+  // 备份与恢复
+  document.getElementById('btn-export-backup')!.onclick = () => {
+    exportModal.classList.add('active');
+  };
+  document.getElementById('btn-cancel-export')!.onclick = () => {
+    exportModal.classList.remove('active');
+  };
+  document.getElementById('btn-confirm-export')!.onclick = exportBackup;
+
+  document.getElementById('btn-restore-backup')!.onclick = () => {
+    restoreModal.classList.add('active');
+  };
+  document.getElementById('btn-cancel-restore')!.onclick = () => {
+    restoreModal.classList.remove('active');
+  };
+  document.getElementById('btn-confirm-restore')!.onclick = restoreBackup;
+
+  // 持仓和交易记录
+  document.getElementById('btn-import-history')!.onclick = importHistory;
+  historyCaInput.addEventListener('change', refreshHistory);
+  historyFromInput.addEventListener('change', refreshHistory);
+  historyToInput.addEventListener('change', refreshHistory);
+  historyStatusSelect.addEventListener('change', refreshHistory);
+  document.getElementById('btn-export-csv')!.onclick = () => exportTrades('csv');
+  document.getElementById('btn-export-json')!.onclick = () => exportTrades('json');
 }
 
 init();
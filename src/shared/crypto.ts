@@ -1,10 +1,46 @@
 // AES-GCM 加密工具
+//
+// 加密结果为自描述的 JSON 信封，记录版本、KDF 名称及参数、随机盐和 IV：
+// {"v":2,"kdf":"PBKDF2","hash":"SHA-256","iterations":600000,"salt":"...","iv":"...","ct":"..."}
+// 旧版格式为 base64(IV + ciphertext)，使用固定盐和 100k 次迭代，仍可解密
 
-const SALT = 'sol-sniper-v1';
-const ITERATIONS = 100000;
+const ENVELOPE_VERSION = 2;
+const KDF_NAME = 'PBKDF2';
+const KDF_HASH = 'SHA-256';
+const ITERATIONS = 600000;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+// 旧版参数（仅用于解密）
+const LEGACY_SALT = 'sol-sniper-v1';
+const LEGACY_ITERATIONS = 100000;
+
+// 加密信封
+interface EncryptedEnvelope {
+  v: number;
+  kdf: string;
+  hash: string;
+  iterations: number;
+  salt: string; // base64
+  iv: string; // base64
+  ct: string; // base64
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(text: string) {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
 
 // 从密码派生密钥
-async function deriveKey(password: string): Promise<CryptoKey> {
+async function deriveKey(
+  password: string,
+  salt: BufferSource,
+  iterations: number,
+  hash: string = KDF_HASH
+): Promise<CryptoKey> {
   const encoder = new TextEncoder();
   const keyMaterial = await crypto.subtle.importKey(
     'raw',
@@ -17,9 +53,9 @@ async function deriveKey(password: string): Promise<CryptoKey> {
   return crypto.subtle.deriveKey(
     {
       name: 'PBKDF2',
-      salt: encoder.encode(SALT),
-      iterations: ITERATIONS,
-      hash: 'SHA-256',
+      salt,
+      iterations,
+      hash,
     },
     keyMaterial,
     { name: 'AES-GCM', length: 256 },
@@ -28,33 +64,66 @@ async function deriveKey(password: string): Promise<CryptoKey> {
   );
 }
 
+// 解析加密信封，非信封格式返回 null（旧版数据）
+function parseEnvelope(encrypted: string): EncryptedEnvelope | null {
+  if (!encrypted.trimStart().startsWith('{')) return null;
+
+  const envelope = JSON.parse(encrypted) as EncryptedEnvelope;
+  if (envelope.v !== ENVELOPE_VERSION) {
+    throw new Error(`不支持的加密格式版本: ${envelope.v}`);
+  }
+  if (envelope.kdf !== KDF_NAME) {
+    throw new Error(`不支持的密钥派生算法: ${envelope.kdf}`);
+  }
+  if (!envelope.salt || !envelope.iv || !envelope.ct || !(envelope.iterations > 0)) {
+    throw new Error('加密数据不完整');
+  }
+  return envelope;
+}
+
 // 加密
 export async function encrypt(plaintext: string, password: string): Promise<string> {
-  const key = await deriveKey(password);
-  const encoder = new TextEncoder();
-  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const key = await deriveKey(password, salt, ITERATIONS);
 
   const ciphertext = await crypto.subtle.encrypt(
     { name: 'AES-GCM', iv },
     key,
-    encoder.encode(plaintext)
+    new TextEncoder().encode(plaintext)
   );
 
-  // 合并 IV + ciphertext，转为 base64
-  const combined = new Uint8Array(iv.length + ciphertext.byteLength);
-  combined.set(iv, 0);
-  combined.set(new Uint8Array(ciphertext), iv.length);
-
-  return btoa(String.fromCharCode(...combined));
+  const envelope: EncryptedEnvelope = {
+    v: ENVELOPE_VERSION,
+    kdf: KDF_NAME,
+    hash: KDF_HASH,
+    iterations: ITERATIONS,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ct: toBase64(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(envelope);
 }
 
-// 解密
+// 解密（同时支持新版信封和旧版格式）
 export async function decrypt(encrypted: string, password: string): Promise<string> {
-  const key = await deriveKey(password);
-  const combined = Uint8Array.from(atob(encrypted), (c) => c.charCodeAt(0));
+  const envelope = parseEnvelope(encrypted);
 
-  const iv = combined.slice(0, 12);
-  const ciphertext = combined.slice(12);
+  let key: CryptoKey;
+  let iv: BufferSource;
+  let ciphertext: BufferSource;
+
+  if (envelope) {
+    key = await deriveKey(password, fromBase64(envelope.salt), envelope.iterations, envelope.hash);
+    iv = fromBase64(envelope.iv);
+    ciphertext = fromBase64(envelope.ct);
+  } else {
+    // 旧版：base64(IV + ciphertext)，固定盐
+    const combined = fromBase64(encrypted);
+    key = await deriveKey(password, new TextEncoder().encode(LEGACY_SALT), LEGACY_ITERATIONS);
+    iv = combined.slice(0, IV_LENGTH);
+    ciphertext = combined.slice(IV_LENGTH);
+  }
 
   const plaintext = await crypto.subtle.decrypt(
     { name: 'AES-GCM', iv },
@@ -65,6 +134,17 @@ export async function decrypt(encrypted: string, password: string): Promise<stri
   return new TextDecoder().decode(plaintext);
 }
 
+// 是否需要用当前参数重新加密（旧版格式或参数弱于当前设置）
+export function needsReencrypt(encrypted: string): boolean {
+  try {
+    const envelope = parseEnvelope(encrypted);
+    if (!envelope) return true;
+    return envelope.iterations < ITERATIONS || envelope.hash !== KDF_HASH;
+  } catch {
+    return false;
+  }
+}
+
 // 验证密码是否正确
 export async function verifyPassword(encrypted: string, password: string): Promise<boolean> {
   try {
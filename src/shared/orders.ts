@@ -0,0 +1,175 @@
+import {
+  ExitPlanStatus,
+  ExitRules,
+  ExitTrigger,
+  LAMPORTS_PER_SOL,
+  LimitOrder,
+  OrderStatus,
+  Schedule,
+  ScheduleStatus,
+  SellOrder,
+  TradeRecord,
+  TradeResult,
+  TradeStage,
+} from './types';
+
+// 挂单、止盈止损、分批买入和交易记录显示（面板、设置页和后台共用）
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: '等待中',
+  executing: '执行中',
+  filled: '已成交',
+  failed: '失败',
+  cancelled: '已取消',
+};
+
+// 显示 SOL 数量、价格等数值（保留 6 位有效数字）
+export function formatNumber(value: number): string {
+  return Number(value.toPrecision(6)).toString();
+}
+
+// 挂单数量说明，例如 "买入 0.5 SOL"、"卖出 50%"
+export function describeOrderAmount(order: LimitOrder): string {
+  if (order.side === 'buy') {
+    return `买入 ${order.amount} SOL`;
+  }
+  const sell = order.sell!;
+  switch (sell.mode) {
+    case 'tokens':
+      return `卖出 ${formatNumber(sell.value)} 枚`;
+    case 'solValue':
+      return `卖出价值 ${sell.value} SOL`;
+    default:
+      return `卖出 ${sell.value}%`;
+  }
+}
+
+// 卖出方式说明，例如 "50%"、"12345 枚"、"价值 0.5 SOL"
+export function describeSellOrder(sell: SellOrder): string {
+  switch (sell.mode) {
+    case 'tokens':
+      return `${formatNumber(sell.value)} 枚`;
+    case 'solValue':
+      return `价值 ${sell.value} SOL`;
+    default:
+      return `${sell.value}%`;
+  }
+}
+
+// 触发条件说明，例如 "价格 ≤ 0.000001 SOL"
+export function describeOrderTrigger(order: LimitOrder): string {
+  const label = order.trigger.kind === 'price' ? '价格' : '市值';
+  const op = order.trigger.direction === 'above' ? '≥' : '≤';
+  return `${label} ${op} ${formatNumber(order.trigger.value)} SOL`;
+}
+
+export const EXIT_STATUS_LABELS: Record<ExitPlanStatus, string> = {
+  active: '监控中',
+  closed: '已结束',
+  cancelled: '已取消',
+};
+
+export const EXIT_TRIGGER_LABELS: Record<ExitTrigger, string> = {
+  takeProfit: '止盈',
+  stopLoss: '止损',
+  trailingStop: '移动止损',
+};
+
+// 止盈止损规则说明，例如 "止盈 +100%卖50% · 止损 -50%"，filledLevels 中的档位标记 ✓
+export function describeExitRules(rules: ExitRules, filledLevels: number[] = []): string {
+  const parts: string[] = [];
+  if (rules.takeProfits.length > 0) {
+    const levels = rules.takeProfits.map((level, i) =>
+      `+${level.gainPct}%卖${level.sellPct}%${filledLevels.includes(i) ? '✓' : ''}`
+    );
+    parts.push(`止盈 ${levels.join(' ')}`);
+  }
+  if (rules.stopLossPct > 0) parts.push(`止损 -${rules.stopLossPct}%`);
+  if (rules.trailingStopPct > 0) parts.push(`移动止损 ${rules.trailingStopPct}%`);
+  return parts.join(' · ') || '未设置';
+}
+
+export const SCHEDULE_STATUS_LABELS: Record<ScheduleStatus, string> = {
+  active: '运行中',
+  paused: '已暂停',
+  completed: '已完成',
+  cancelled: '已取消',
+};
+
+// 分批买入说明，例如 "分批 1 SOL / 5 次 · 每 10 分钟 ±20%"
+export function describeSchedule(schedule: Schedule): string {
+  const amount = schedule.kind === 'twap'
+    ? `分批 ${formatNumber(schedule.amount)} SOL / ${schedule.runs} 次`
+    : `定投 ${formatNumber(schedule.amount)} SOL × ${schedule.runs || '不限'} 次`;
+  const jitter = schedule.jitterPct > 0 ? ` ±${schedule.jitterPct}%` : '';
+  return `${amount} · 每 ${formatNumber(schedule.intervalMinutes)} 分钟${jitter}`;
+}
+
+// 分批买入进度，例如 "3/5 · 已买入 0.6 SOL · 下次 12:30:00"
+export function describeScheduleProgress(schedule: Schedule): string {
+  const parts = [`${schedule.completedRuns}/${schedule.runs || '∞'}`, `已买入 ${formatNumber(schedule.spent)} SOL`];
+  if (schedule.status === 'active') {
+    parts.push(`下次 ${new Date(schedule.nextRunAt).toLocaleTimeString()}`);
+  }
+  return parts.join(' · ');
+}
+
+// 交易的 SOL 数量（买入为花费，卖出为获得的实际成交或报价，没有报价的买入为下单金额）
+export function tradeSolAmount(trade: TradeRecord): number | undefined {
+  const lamports = trade.side === 'buy' ? trade.inAmount : trade.outAmount;
+  if (lamports) return Number(lamports) / LAMPORTS_PER_SOL;
+  return trade.side === 'buy' ? trade.amount : undefined;
+}
+
+// 交易的 Token 数量（UI 单位，未知精度时为空）
+export function tradeTokenAmount(trade: TradeRecord): number | undefined {
+  const raw = trade.side === 'buy' ? trade.outAmount : trade.inAmount;
+  if (!raw || trade.decimals === undefined) return undefined;
+  return Number(raw) / Math.pow(10, trade.decimals);
+}
+
+// 交易记录说明，例如 "买入 0.5 SOL → 12345 枚"、"卖出 50% → 0.8 SOL"
+export function describeTrade(trade: TradeRecord): string {
+  const sol = tradeSolAmount(trade);
+  const tokens = tradeTokenAmount(trade);
+  const solText = sol !== undefined ? `${formatNumber(sol)} SOL` : '- SOL';
+  const tokenText = tokens !== undefined ? `${formatNumber(tokens)} 枚` : '- 枚';
+  if (trade.side === 'buy') {
+    return `买入 ${solText} → ${tokenText}`;
+  }
+  // 未获取到报价的失败交易按卖出方式显示
+  let sell = tokenText;
+  if (trade.sell?.mode === 'percent') {
+    sell = `${trade.sell.value}%`;
+  } else if (tokens === undefined && trade.sell?.mode === 'tokens') {
+    sell = `${formatNumber(trade.sell.value)} 枚`;
+  } else if (tokens === undefined && trade.sell?.mode === 'solValue') {
+    sell = `价值 ${trade.sell.value} SOL`;
+  }
+  return `卖出 ${sell} → ${solText}`;
+}
+
+// 实际成交说明，例如 "花费 0.5 SOL 获得 12345 枚 · 手续费 0.000105 SOL · 较报价 +1.2%"
+export function describeTradeResult(result: TradeResult): string {
+  const amounts = result.side === 'buy'
+    ? `花费 ${formatNumber(result.solAmount)} SOL 获得 ${formatNumber(result.tokenAmount)} 枚`
+    : `卖出 ${formatNumber(result.tokenAmount)} 枚 获得 ${formatNumber(result.solAmount)} SOL`;
+  if (result.pending) {
+    return `已发送，预计${amounts}，等待确认`;
+  }
+  if (!result.verified) {
+    return `${amounts}（按报价，未读取到链上成交）`;
+  }
+  const diff = `${result.priceDiffPct >= 0 ? '+' : ''}${result.priceDiffPct.toFixed(2)}%`;
+  return `${amounts} · 手续费 ${formatNumber(result.fee)} SOL · 较报价 ${diff}`;
+}
+
+export const TRADE_STAGE_LABELS: Record<TradeStage, string> = {
+  quoting: '获取报价',
+  signed: '已签名',
+  sent: '已发送',
+  confirming: '已上链，等待确认',
+  retry: '重试',
+  landed: '已确认',
+  failed: '失败',
+};
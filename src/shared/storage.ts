@@ -1,11 +1,34 @@
-import { Config, DEFAULT_CONFIG } from './types';
+import { Config, DEFAULT_CONFIG, ExitPlan, ImportState, JournalEntry, LimitKind, LimitOrder, LimitOverride, Position, Schedule, SpendRecord, StoredWallet, TradeRecord } from './types';
 
 const STORAGE_KEYS = {
   CONFIG: 'sol_sniper_config',
+  WALLETS: 'sol_sniper_wallets',
+  ACTIVE_WALLET: 'sol_sniper_active_wallet',
+  SPEND_RECORDS: 'sol_sniper_spend_records',
+  ORDERS: 'sol_sniper_orders',
+  EXIT_PLANS: 'sol_sniper_exit_plans',
+  SCHEDULES: 'sol_sniper_schedules',
+  POSITIONS: 'sol_sniper_positions',
+  TRADES: 'sol_sniper_trades',
+  IMPORT_STATES: 'sol_sniper_import_states',
+  // 旧版单钱包存储，仅用于迁移
   ENCRYPTED_KEY: 'sol_sniper_encrypted_key',
   WALLET_ADDRESS: 'sol_sniper_wallet_address',
 };
 
+// 会话存储（chrome.storage.session 仅保存在内存中，浏览器关闭即清除）
+const SESSION_KEYS = {
+  WALLET_SESSION: 'sol_sniper_wallet_session',
+  LIMIT_OVERRIDES: 'sol_sniper_limit_overrides',
+  TRADE_JOURNAL: 'sol_sniper_trade_journal',
+};
+
+// 已解锁钱包的会话数据，用于 Service Worker 重启后恢复解锁状态
+export interface WalletSession {
+  secretKeys: Record<string, string>; // 地址 -> base58 私钥
+  lockAt: number; // 自动锁定时间戳，0 表示不自动锁定
+}
+
 // 获取配置
 export async function getConfig(): Promise<Config> {
   return new Promise((resolve) => {
@@ -25,38 +48,237 @@ export async function saveConfig(config: Partial<Config>): Promise<void> {
   });
 }
 
-// 保存加密的私钥
-export async function saveEncryptedKey(encryptedKey: string, address: string): Promise<void> {
+// 获取钱包列表（自动迁移旧版单钱包存储）
+export async function getWallets(): Promise<StoredWallet[]> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(
+      [STORAGE_KEYS.WALLETS, STORAGE_KEYS.ENCRYPTED_KEY, STORAGE_KEYS.WALLET_ADDRESS],
+      (result) => {
+        const wallets: StoredWallet[] | undefined = result[STORAGE_KEYS.WALLETS];
+        if (wallets) {
+          resolve(wallets);
+          return;
+        }
+
+        const legacyKey = result[STORAGE_KEYS.ENCRYPTED_KEY];
+        const legacyAddress = result[STORAGE_KEYS.WALLET_ADDRESS];
+        if (!legacyKey || !legacyAddress) {
+          resolve([]);
+          return;
+        }
+
+        const migrated: StoredWallet[] = [
+          { address: legacyAddress, label: '钱包 1', encryptedKey: legacyKey, createdAt: Date.now() },
+        ];
+        chrome.storage.local.set(
+          { [STORAGE_KEYS.WALLETS]: migrated, [STORAGE_KEYS.ACTIVE_WALLET]: legacyAddress },
+          () => {
+            chrome.storage.local.remove([STORAGE_KEYS.ENCRYPTED_KEY, STORAGE_KEYS.WALLET_ADDRESS], () => {
+              resolve(migrated);
+            });
+          }
+        );
+      }
+    );
+  });
+}
+
+// 保存钱包列表
+export async function saveWallets(wallets: StoredWallet[]): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [STORAGE_KEYS.WALLETS]: wallets }, resolve);
+  });
+}
+
+// 获取当前使用的钱包地址
+export async function getActiveWalletAddress(): Promise<string> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(STORAGE_KEYS.ACTIVE_WALLET, (result) => {
+      resolve(result[STORAGE_KEYS.ACTIVE_WALLET] || '');
+    });
+  });
+}
+
+// 设置当前使用的钱包地址
+export async function saveActiveWalletAddress(address: string): Promise<void> {
   return new Promise((resolve) => {
-    chrome.storage.local.set(
-      {
-        [STORAGE_KEYS.ENCRYPTED_KEY]: encryptedKey,
-        [STORAGE_KEYS.WALLET_ADDRESS]: address,
-      },
+    chrome.storage.local.set({ [STORAGE_KEYS.ACTIVE_WALLET]: address }, resolve);
+  });
+}
+
+// 清除所有钱包数据
+export async function clearWallets(): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.remove(
+      [STORAGE_KEYS.WALLETS, STORAGE_KEYS.ACTIVE_WALLET, STORAGE_KEYS.ENCRYPTED_KEY, STORAGE_KEYS.WALLET_ADDRESS],
       resolve
     );
   });
 }
 
-// 获取加密的私钥
-export async function getEncryptedKey(): Promise<{ encryptedKey: string; address: string } | null> {
+// 保存解锁会话
+export async function saveWalletSession(session: WalletSession): Promise<void> {
   return new Promise((resolve) => {
-    chrome.storage.local.get([STORAGE_KEYS.ENCRYPTED_KEY, STORAGE_KEYS.WALLET_ADDRESS], (result) => {
-      if (result[STORAGE_KEYS.ENCRYPTED_KEY] && result[STORAGE_KEYS.WALLET_ADDRESS]) {
-        resolve({
-          encryptedKey: result[STORAGE_KEYS.ENCRYPTED_KEY],
-          address: result[STORAGE_KEYS.WALLET_ADDRESS],
-        });
-      } else {
-        resolve(null);
-      }
+    chrome.storage.session.set({ [SESSION_KEYS.WALLET_SESSION]: session }, resolve);
+  });
+}
+
+// 获取解锁会话
+export async function getWalletSession(): Promise<WalletSession | null> {
+  return new Promise((resolve) => {
+    chrome.storage.session.get(SESSION_KEYS.WALLET_SESSION, (result) => {
+      resolve(result[SESSION_KEYS.WALLET_SESSION] || null);
+    });
+  });
+}
+
+// 清除解锁会话
+export async function clearWalletSession(): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.session.remove(SESSION_KEYS.WALLET_SESSION, resolve);
+  });
+}
+
+// 获取买入支出记录
+export async function getSpendRecords(): Promise<SpendRecord[]> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(STORAGE_KEYS.SPEND_RECORDS, (result) => {
+      resolve(result[STORAGE_KEYS.SPEND_RECORDS] || []);
+    });
+  });
+}
+
+// 保存买入支出记录
+export async function saveSpendRecords(records: SpendRecord[]): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [STORAGE_KEYS.SPEND_RECORDS]: records }, resolve);
+  });
+}
+
+// 获取挂单
+export async function getOrders(): Promise<LimitOrder[]> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(STORAGE_KEYS.ORDERS, (result) => {
+      resolve(result[STORAGE_KEYS.ORDERS] || []);
+    });
+  });
+}
+
+// 保存挂单
+export async function saveOrders(orders: LimitOrder[]): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [STORAGE_KEYS.ORDERS]: orders }, resolve);
+  });
+}
+
+// 获取止盈止损计划
+export async function getExitPlans(): Promise<ExitPlan[]> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(STORAGE_KEYS.EXIT_PLANS, (result) => {
+      resolve(result[STORAGE_KEYS.EXIT_PLANS] || []);
+    });
+  });
+}
+
+// 保存止盈止损计划
+export async function saveExitPlans(plans: ExitPlan[]): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [STORAGE_KEYS.EXIT_PLANS]: plans }, resolve);
+  });
+}
+
+// 获取分批买入和定投计划
+export async function getSchedules(): Promise<Schedule[]> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(STORAGE_KEYS.SCHEDULES, (result) => {
+      resolve(result[STORAGE_KEYS.SCHEDULES] || []);
+    });
+  });
+}
+
+// 保存分批买入和定投计划
+export async function saveSchedules(schedules: Schedule[]): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [STORAGE_KEYS.SCHEDULES]: schedules }, resolve);
+  });
+}
+
+// 获取持仓账本
+export async function getPositions(): Promise<Position[]> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(STORAGE_KEYS.POSITIONS, (result) => {
+      resolve(result[STORAGE_KEYS.POSITIONS] || []);
+    });
+  });
+}
+
+// 保存持仓账本
+export async function savePositions(positions: Position[]): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [STORAGE_KEYS.POSITIONS]: positions }, resolve);
+  });
+}
+
+// 获取交易记录
+export async function getTrades(): Promise<TradeRecord[]> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(STORAGE_KEYS.TRADES, (result) => {
+      resolve(result[STORAGE_KEYS.TRADES] || []);
+    });
+  });
+}
+
+// 保存交易记录
+export async function saveTrades(trades: TradeRecord[]): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [STORAGE_KEYS.TRADES]: trades }, resolve);
+  });
+}
+
+// 获取链上历史导入进度（按钱包地址索引）
+export async function getImportStates(): Promise<Record<string, ImportState>> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(STORAGE_KEYS.IMPORT_STATES, (result) => {
+      resolve(result[STORAGE_KEYS.IMPORT_STATES] || {});
+    });
+  });
+}
+
+// 保存链上历史导入进度
+export async function saveImportStates(states: Record<string, ImportState>): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [STORAGE_KEYS.IMPORT_STATES]: states }, resolve);
+  });
+}
+
+// 获取临时调整的限额（会话存储，浏览器关闭即失效）
+export async function getLimitOverrides(): Promise<Partial<Record<LimitKind, LimitOverride>>> {
+  return new Promise((resolve) => {
+    chrome.storage.session.get(SESSION_KEYS.LIMIT_OVERRIDES, (result) => {
+      resolve(result[SESSION_KEYS.LIMIT_OVERRIDES] || {});
+    });
+  });
+}
+
+// 保存临时调整的限额
+export async function saveLimitOverrides(overrides: Partial<Record<LimitKind, LimitOverride>>): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.session.set({ [SESSION_KEYS.LIMIT_OVERRIDES]: overrides }, resolve);
+  });
+}
+
+// 获取未完成交易的日志（会话存储，Service Worker 重启后恢复确认）
+export async function getTradeJournal(): Promise<JournalEntry[]> {
+  return new Promise((resolve) => {
+    chrome.storage.session.get(SESSION_KEYS.TRADE_JOURNAL, (result) => {
+      resolve(result[SESSION_KEYS.TRADE_JOURNAL] || []);
     });
   });
 }
 
-// 清除钱包数据
-export async function clearWallet(): Promise<void> {
+// 保存交易日志
+export async function saveTradeJournal(entries: JournalEntry[]): Promise<void> {
   return new Promise((resolve) => {
-    chrome.storage.local.remove([STORAGE_KEYS.ENCRYPTED_KEY, STORAGE_KEYS.WALLET_ADDRESS], resolve);
+    chrome.storage.session.set({ [SESSION_KEYS.TRADE_JOURNAL]: entries }, resolve);
   });
 }
@@ -7,11 +7,32 @@ export interface Config {
   priorityFee: number; // 优先费 microLamports
   buyPresets: [number, number, number, number]; // 4个买入预设 (SOL)
   sellPresets: [number, number, number, number]; // 4个卖出预设 (%)
-  autoLockMinutes: number;
+  autoLockMinutes: number; // 自动锁定时间（分钟），0 表示不自动锁定
   allowedSites: string[]; // 允许显示插件的网站列表（空数组表示所有网站）
   enableCache: boolean; // 是否启用缓存预加载
+  fastSend: boolean; // 快速发送：面板交易发送后立即返回，后台继续确认并通知结果
+  allowedPrograms: string[]; // 签名前允许交易调用的程序（空数组表示使用默认列表）
+  maxBuyPerTrade: number; // 单笔买入上限 (SOL)，0 表示不限制
+  maxBuyPerToken: number; // 单个 Token 24小时内买入上限 (SOL)，0 表示不限制
+  maxBuyDaily: number; // 24小时内买入总额上限 (SOL)，0 表示不限制
+  minSolReserve: number; // 买入后钱包至少保留的 SOL（手续费和账户租金），0 表示不检查
+  confirmBuyAbove: number; // 买入金额超过该值时需二次确认 (SOL)，0 表示不确认
+  confirmFullSell: boolean; // 全部卖出 (100%) 时需二次确认
+  requireArming: boolean; // 需先为当前 Token 启用交易，交易按钮才可用
+  exitRules: ExitRules; // 买入后挂载的止盈止损规则
+  autoAttachExits: boolean; // 悬浮窗默认勾选“买入后自动止盈止损”
 }
 
+// 默认允许的程序：Jupiter v6、Token、Token-2022、关联 Token 账户、ComputeBudget、System
+export const DEFAULT_ALLOWED_PROGRAMS: string[] = [
+  'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4',
+  'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+  'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb',
+  'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL',
+  'ComputeBudget111111111111111111111111111111',
+  '11111111111111111111111111111111',
+];
+
 // 默认配置
 export const DEFAULT_CONFIG: Config = {
   heliusApiKey: '',
@@ -24,13 +45,70 @@ export const DEFAULT_CONFIG: Config = {
   autoLockMinutes: 30,
   allowedSites: [], // 空数组表示所有网站都显示
   enableCache: true, // 默认启用缓存预加载
+  fastSend: false,
+  allowedPrograms: DEFAULT_ALLOWED_PROGRAMS,
+  maxBuyPerTrade: 0,
+  maxBuyPerToken: 0,
+  maxBuyDaily: 0,
+  minSolReserve: 0,
+  confirmBuyAbove: 0,
+  confirmFullSell: false,
+  requireArming: false,
+  exitRules: {
+    takeProfits: [{ gainPct: 100, sellPct: 50 }],
+    stopLossPct: 50,
+    trailingStopPct: 0,
+  },
+  autoAttachExits: false,
 };
 
+// 已存储的钱包（私钥加密）
+export interface StoredWallet {
+  address: string;
+  label: string;
+  encryptedKey: string;
+  createdAt: number;
+  needsBackup?: boolean; // 新生成的钱包，确认备份前不能用于交易
+}
+
+// 备份文件中的钱包（私钥明文，整个备份使用备份密码加密）
+export interface BackupWallet {
+  address: string;
+  label: string;
+  secretKey: string; // base58
+  createdAt: number;
+}
+
+// 备份内容（加密前）
+export interface BackupPayload {
+  version: number;
+  createdAt: number;
+  config: Config;
+  wallets: BackupWallet[];
+  activeWallet: string;
+  positions?: Position[]; // 持仓账本（旧版备份没有）
+  trades?: TradeRecord[]; // 交易记录（旧版备份没有）
+}
+
+// 备份恢复模式：merge 合并到现有数据，replace 替换现有数据
+export type RestoreMode = 'merge' | 'replace';
+
+// 钱包列表项（不含私钥）
+export interface WalletInfo {
+  address: string;
+  label: string;
+  balance: number; // SOL
+  isActive: boolean;
+  needsBackup: boolean;
+}
+
 // 钱包状态
 export interface WalletState {
-  address: string;
+  address: string; // 当前使用的钱包
   balance: number; // SOL
   isLocked: boolean;
+  needsMigration: boolean; // 旧版默认密码加密的钱包，解锁时需设置新密码
+  wallets: WalletInfo[];
 }
 
 // 预加载的交易
@@ -43,6 +121,78 @@ export interface PreloadedTrade {
   timestamp: number;
 }
 
+// 批量买入请求（多个钱包同时买入同一个代币）
+export interface BundleBuyRequest {
+  ca: string;
+  amount: number; // 预设金额 (SOL)，未单独设置金额的钱包使用
+  wallets: { address: string; amount?: number }[]; // amount 为该钱包单独设置的金额
+  randomRange?: { min: number; max: number }; // 设置后未单独设置金额的钱包在区间内随机金额
+  attachExits?: boolean; // 买入成功后挂载止盈止损
+}
+
+// 单个钱包的批量买入结果
+export interface BundleBuyWalletResult {
+  address: string;
+  label: string;
+  amount: number; // SOL
+  success: boolean;
+  signature?: string;
+  result?: TradeResult; // 实际成交
+  error?: string;
+}
+
+// 批量买入汇总结果
+export interface BundleBuyResult {
+  results: BundleBuyWalletResult[];
+  succeeded: number;
+  failed: number;
+  totalSol: number; // 成功买入的SOL总额
+}
+
+// 新钱包备份校验：展示私钥，并要求输入指定位置的字符
+export interface NewWalletReveal {
+  address: string;
+  secretKey: string; // Base58
+  positions: number[]; // 需要输入的字符位置（从1开始）
+}
+
+// 买入限额类型：单笔、单个 Token 24小时、24小时总额、最低保留
+export type LimitKind = 'perTrade' | 'perToken' | 'daily' | 'reserve';
+
+// 限额检查未通过的详情（用于面板提示和临时调整）
+export interface LimitViolation {
+  kind: LimitKind;
+  limit: number; // 当前生效的限额 (SOL)
+  required: number; // 本次交易需要的限额 (SOL)，最低保留时为需要降低到的值
+}
+
+// 买入支出记录（按钱包统计24小时限额）
+export interface SpendRecord {
+  id: string;
+  owner: string;
+  ca: string;
+  amount: number; // SOL
+  timestamp: number;
+}
+
+// 临时调整的限额（到期自动失效）
+export interface LimitOverride {
+  value: number;
+  expiresAt: number;
+}
+
+// 助记词派生路径
+export type DerivationPathId = 'phantom' | 'solflare' | 'legacy';
+
+// 助记词派生的账户预览
+export interface DerivedAccount {
+  index: number;
+  path: string;
+  address: string;
+  balance: number; // SOL
+  imported: boolean; // 是否已导入
+}
+
 // Jupiter Quote 响应
 export interface JupiterQuote {
   inputMint: string;
@@ -51,6 +201,294 @@ export interface JupiterQuote {
   outAmount: string;
   priceImpactPct: string;
   routePlan: any[];
+  contextSlot?: number; // 报价时的 slot
+}
+
+// 预加载的交易（Jupiter 构建、尚未签名）
+export interface CachedSwap {
+  quote: JupiterQuote;
+  swapTx: string; // base64 encoded
+  lastValidBlockHeight: number; // 交易中区块哈希的最后有效区块高度
+  signed?: Uint8Array; // 预签名后序列化的交易（点击时编码为 base58 直接发送，使用或丢弃时清零）
+}
+
+// 卖出方式：按持仓百分比、按 Token 数量、按 SOL 价值（根据实时报价换算 Token 数量）
+export type SellMode = 'percent' | 'tokens' | 'solValue';
+
+export interface SellOrder {
+  mode: SellMode;
+  value: number; // 百分比 / Token 数量（UI 单位）/ SOL 数量
+}
+
+// 面板输入的自定义金额，随预设一起预加载
+export interface CustomTradePresets {
+  buy?: number | null; // 自定义买入 SOL 数量
+  sell?: SellOrder | null; // 自定义卖出
+}
+
+// 挂单触发条件：价格或市值（均以 SOL 计价）越过阈值
+export type OrderTriggerKind = 'price' | 'marketCap';
+export type OrderStatus = 'pending' | 'executing' | 'filled' | 'failed' | 'cancelled';
+
+export interface OrderTrigger {
+  kind: OrderTriggerKind;
+  direction: 'above' | 'below'; // 高于等于 / 低于等于阈值时触发
+  value: number; // 阈值（SOL）
+}
+
+// 新建挂单
+export interface NewLimitOrder {
+  ca: string;
+  side: 'buy' | 'sell';
+  amount?: number; // 买入 SOL 数量
+  sell?: SellOrder; // 卖出方式
+  trigger: OrderTrigger;
+}
+
+export interface LimitOrder extends NewLimitOrder {
+  id: string;
+  owner: string; // 下单时的钱包地址
+  status: OrderStatus;
+  createdAt: number;
+  triggeredAt?: number;
+  observed?: number; // 触发时观测到的价格或市值
+  reason?: string; // 触发原因
+  signature?: string;
+  error?: string;
+}
+
+// 分批买入（TWAP）和定投（DCA）
+export type ScheduleKind = 'twap' | 'dca';
+export type ScheduleStatus = 'active' | 'paused' | 'completed' | 'cancelled';
+
+export interface NewSchedule {
+  ca: string;
+  kind: ScheduleKind;
+  amount: number; // TWAP 为总 SOL 数量，DCA 为每次买入的 SOL 数量
+  runs: number; // TWAP 为分批次数，DCA 为买入次数（0 表示不限）
+  intervalMinutes: number; // 两次买入的间隔（分钟）
+  jitterPct: number; // 间隔随机浮动比例 (%)，0 表示固定间隔
+}
+
+// 单次买入结果
+export interface ScheduleRun {
+  index: number; // 第几次（从 1 开始）
+  amount: number;
+  signature?: string;
+  error?: string;
+  timestamp: number;
+}
+
+export interface Schedule extends NewSchedule {
+  id: string;
+  owner: string; // 创建时的钱包地址
+  chunkAmount: number; // 每次买入的 SOL 数量
+  status: ScheduleStatus;
+  completedRuns: number; // 成功的次数
+  spent: number; // 已买入的 SOL 数量
+  failures: number; // 连续失败次数
+  nextRunAt: number;
+  runningSince?: number; // 正在执行的买入开始时间（用于检测后台重启导致的中断）
+  createdAt: number;
+  updatedAt: number;
+  reason?: string; // 暂停或结束原因
+  history: ScheduleRun[];
+}
+
+// 止盈档位：涨幅达到 gainPct 时卖出买入数量的 sellPct
+export interface TakeProfitLevel {
+  gainPct: number;
+  sellPct: number;
+}
+
+// 止盈止损规则（百分比为 0 表示不启用）
+export interface ExitRules {
+  takeProfits: TakeProfitLevel[];
+  stopLossPct: number; // 较买入价下跌该比例时卖出剩余全部
+  trailingStopPct: number; // 较最高价回撤该比例时卖出剩余全部
+}
+
+export type ExitTrigger = 'takeProfit' | 'stopLoss' | 'trailingStop';
+
+// 止盈止损成交记录
+export interface ExitFill {
+  trigger: ExitTrigger;
+  reason: string;
+  price: number; // 触发时的卖出价格（SOL）
+  rawAmount: number; // 卖出的原始数量
+  signature?: string;
+  error?: string;
+  timestamp: number;
+}
+
+export type ExitPlanStatus = 'active' | 'closed' | 'cancelled';
+
+// 持仓的止盈止损计划（只管理本次买入的数量）
+export interface ExitPlan {
+  id: string;
+  owner: string;
+  ca: string;
+  decimals: number;
+  entryPrice: number; // 买入价格（每个 Token 的 SOL 价格）
+  rawAmount: number; // 买入的原始数量
+  rawRemaining: number; // 尚未卖出的原始数量
+  peakPrice: number; // 观测到的最高价格（移动止损）
+  lastPrice?: number;
+  rules: ExitRules;
+  filledLevels: number[]; // 已成交的止盈档位序号
+  status: ExitPlanStatus;
+  createdAt: number;
+  updatedAt: number;
+  closeReason?: string;
+  fills: ExitFill[];
+}
+
+// 持仓账本（按钱包和 Token 统计，成本按平均成本法计算）
+export interface Position {
+  owner: string;
+  ca: string;
+  decimals: number;
+  solIn: number; // 买入花费的 SOL
+  solOut: number; // 卖出获得的 SOL
+  rawTokensIn: number; // 买入的原始数量
+  rawTokensOut: number; // 卖出的原始数量
+  rawHeld: number; // 账本中的持仓（原始数量）
+  costBasis: number; // 当前持仓的成本 (SOL)
+  realizedPnl: number; // 已实现盈亏 (SOL)
+  buys: number;
+  sells: number;
+  openedAt: number;
+  updatedAt: number;
+}
+
+// 带实时估值的持仓（估值来自当前的卖出报价）
+export interface PositionView extends Position {
+  avgCost: number; // 每个 Token 的平均成本 (SOL)
+  value?: number; // 持仓价值 (SOL)
+  unrealizedPnl?: number; // 未实现盈亏 (SOL)
+  valueError?: string;
+}
+
+// 交易记录（每次执行买入/卖出后追加，成功和失败都记录）
+export type TradeOutcome = 'success' | 'failed';
+
+export interface TradeRecord {
+  id: string;
+  timestamp: number;
+  owner: string;
+  ca: string;
+  side: 'buy' | 'sell';
+  status: TradeOutcome;
+  amount?: number; // 买入 SOL 数量
+  sell?: SellOrder; // 卖出方式
+  decimals?: number;
+  inAmount?: string; // 输入（原始数量，已读取链上成交的为实际数量，否则为报价）
+  outAmount?: string; // 输出（原始数量，同上）
+  priceImpactPct?: number; // 价格影响 (%)
+  priceDiffPct?: number; // 实际成交价相对报价的偏差 (%)
+  slippageBps?: number;
+  priorityFee?: number; // 优先费 (SOL)
+  fee?: number; // 链上手续费 (SOL)
+  cached: boolean; // 是否使用预加载缓存
+  signature?: string;
+  error?: string;
+  timings: Record<string, number>; // 各步骤耗时 (ms)
+  imported?: boolean; // 从链上历史导入
+}
+
+// 交易记录筛选条件（时间为毫秒时间戳）
+export interface TradeHistoryFilter {
+  ca?: string;
+  status?: TradeOutcome;
+  from?: number;
+  to?: number;
+  limit?: number;
+}
+
+export type TradeExportFormat = 'csv' | 'json';
+
+// 链上历史导入进度（按钱包保存，下次从最后处理的签名继续）
+export interface ImportState {
+  lastSignature?: string;
+  imported: number; // 累计导入的兑换数
+  updatedAt: number;
+}
+
+export interface ImportResult {
+  address: string;
+  scanned: number; // 本次检查的交易数
+  imported: number; // 本次导入的兑换数
+  skipped: number; // 插件已记录的交易
+  remaining: number; // 尚未处理的交易数（再次导入时继续）
+}
+
+// Token 行情（价格为每个 Token 的 SOL 价格，市值 = 价格 × 总供应量）
+export interface TokenMarket {
+  price: number;
+  marketCap: number;
+  supply: number;
+  timestamp: number;
+}
+
+// 交易确认时展示的报价
+export interface TradeQuotePreview {
+  side: 'buy' | 'sell';
+  inAmount: number; // 输入数量（买入为 SOL，卖出为 Token）
+  outAmount: number; // 预计输出数量（买入为 Token，卖出为 SOL）
+  priceImpactPct: number; // 价格影响 (%)
+  cached: boolean; // 是否来自预加载缓存
+}
+
+// 交易确认后的实际成交（从链上交易的余额变化计算）
+export interface TradeResult {
+  signature: string;
+  side: 'buy' | 'sell';
+  ca: string;
+  solAmount: number; // 实际花费 / 获得的 SOL（不含手续费和 Token 账户租金）
+  tokenAmount: number; // 实际获得 / 卖出的 Token（UI 数量）
+  fee: number; // 交易手续费 (SOL)，含优先费
+  rent: number; // 新建 Token 账户的租金 (SOL)，关闭账户退回时为负
+  price: number; // 实际成交价（SOL / Token）
+  quotedPrice: number; // 报价价格（SOL / Token）
+  priceDiffPct: number; // 实际成交价相对报价的偏差 (%)，买入为正、卖出为负表示比报价差
+  verified: boolean; // 是否读取到链上交易（false 时数量为报价）
+  pending?: boolean; // 快速发送：已发送等待确认，数量为报价的预计成交
+}
+
+// 交易日志：签名后、发送前写入会话存储，Service Worker 重启后据此继续确认
+export interface JournalEntry {
+  key: string; // 同一笔交易（含重试的多次签名）共用
+  signature: string;
+  side: 'buy' | 'sell';
+  ca: string;
+  owner: string;
+  amount?: number; // 买入 SOL 数量
+  sell?: SellOrder; // 卖出方式
+  decimals?: number;
+  quote: JupiterQuote; // 该签名对应的报价
+  cached: boolean;
+  attachExits?: boolean;
+  spend?: SpendRecord; // 买入限额记录（链上执行失败时撤销）
+  timings: Record<string, number>;
+  signedAt: number;
+}
+
+// 交易进度推送（Background -> 面板，通过 chrome.runtime.connect 长连接）
+export const TRADE_PROGRESS_PORT = 'sol-sniper-trade-progress';
+
+// quoting 获取报价 / signed 已签名 / sent 已发送 / confirming 已上链等待确认 / retry 重试 / landed 已确认 / failed 失败
+export type TradeStage = 'quoting' | 'signed' | 'sent' | 'confirming' | 'retry' | 'landed' | 'failed';
+
+export interface TradeProgressEvent {
+  tradeId: string; // 面板发起交易时生成，随交易消息的 payload 传入
+  side: 'buy' | 'sell';
+  stage: TradeStage;
+  attempt?: number; // 发送尝试次数（从 1 开始）
+  signature?: string; // 最近一次发送的交易签名
+  error?: string;
+  result?: TradeResult; // 实际成交（landed 时）
+  elapsed: number; // 距交易开始的耗时 (ms)
+  timings: Record<string, number>; // 已完成步骤的耗时 (ms)
 }
 
 // Jupiter Swap 响应
@@ -65,11 +503,46 @@ export type MessageType =
   | 'GET_WALLET_STATE'
   | 'PRELOAD_TRADES'
   | 'EXECUTE_BUY'
+  | 'PRELOAD_CUSTOM_TRADE'
+  | 'RELEASE_PRELOAD'
   | 'EXECUTE_SELL'
+  | 'EXECUTE_SELL_TOKENS'
+  | 'EXECUTE_SELL_SOL_VALUE'
+  | 'GET_TRADE_QUOTE'
+  | 'EXECUTE_BUNDLE_BUY'
   | 'GET_CONFIG'
   | 'SAVE_CONFIG'
   | 'IMPORT_WALLET'
+  | 'PREVIEW_MNEMONIC'
+  | 'IMPORT_MNEMONIC'
+  | 'CREATE_WALLET'
+  | 'REVEAL_NEW_WALLET'
+  | 'CONFIRM_WALLET_BACKUP'
   | 'REMOVE_WALLET'
+  | 'RENAME_WALLET'
+  | 'REORDER_WALLETS'
+  | 'SET_ACTIVE_WALLET'
+  | 'UNLOCK_WALLET'
+  | 'LOCK_WALLET'
+  | 'EXPORT_BACKUP'
+  | 'RESTORE_BACKUP'
+  | 'OVERRIDE_LIMIT'
+  | 'CREATE_ORDER'
+  | 'LIST_ORDERS'
+  | 'CANCEL_ORDER'
+  | 'GET_TOKEN_MARKET'
+  | 'LIST_EXIT_PLANS'
+  | 'CANCEL_EXIT_PLAN'
+  | 'CREATE_SCHEDULE'
+  | 'LIST_SCHEDULES'
+  | 'PAUSE_SCHEDULE'
+  | 'RESUME_SCHEDULE'
+  | 'CANCEL_SCHEDULE'
+  | 'GET_POSITION'
+  | 'LIST_POSITIONS'
+  | 'LIST_TRADES'
+  | 'EXPORT_TRADES'
+  | 'IMPORT_HISTORY'
   | 'GET_TOKEN_BALANCE';
 
 export interface Message {
@@ -81,6 +554,7 @@ export interface MessageResponse {
   success: boolean;
   data?: any;
   error?: string;
+  code?: string; // 错误类型，例如 LIMIT_EXCEEDED（data 为 LimitViolation）
 }
 
 // 交易状态
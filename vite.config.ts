@@ -1,4 +1,4 @@
-import { defineConfig } from 'vite';
+import { build, defineConfig, Plugin } from 'vite';
 import { resolve } from 'path';
 import { readFileSync, writeFileSync, copyFileSync, mkdirSync, existsSync } from 'fs';
 
@@ -50,6 +50,53 @@ function copyManifestPlugin() {
   };
 }
 
+// 三个入口共用的路径别名和全局变量
+const sharedResolve = {
+  alias: {
+    '@': resolve(__dirname, 'src'),
+    buffer: 'buffer',
+  },
+};
+const sharedDefine = {
+  'global': 'globalThis',
+  'process.env': {},
+};
+
+// 自定义插件：单独打包 content script
+// content_scripts 以普通脚本加载，不能包含 import，因此不和其他入口拆分公共 chunk，打包为单个 IIFE 文件
+function buildContentPlugin(): Plugin {
+  const entry = resolve(__dirname, 'src/content/index.ts');
+  return {
+    name: 'build-content',
+    buildStart() {
+      // content 不在主构建的依赖图中，watch 模式下手动监听
+      this.addWatchFile(entry);
+    },
+    async closeBundle() {
+      await build({
+        configFile: false,
+        logLevel: 'warn',
+        resolve: sharedResolve,
+        define: sharedDefine,
+        build: {
+          outDir: 'dist',
+          emptyOutDir: false,
+          lib: {
+            entry,
+            formats: ['iife'],
+            name: 'SolSniperContent',
+            fileName: () => 'content.js',
+          },
+          target: 'esnext',
+          minify: false,
+          sourcemap: false,
+        },
+      });
+      console.log('✓ Content script built');
+    },
+  };
+}
+
 export default defineConfig({
   build: {
     outDir: 'dist',
@@ -57,7 +104,6 @@ export default defineConfig({
     rollupOptions: {
       input: {
         background: resolve(__dirname, 'src/background/index.ts'),
-        content: resolve(__dirname, 'src/content/index.ts'),
         'popup/index': resolve(__dirname, 'src/popup/index.ts'),
       },
       output: {
@@ -74,18 +120,11 @@ export default defineConfig({
       transformMixedEsModules: true,
     },
   },
-  resolve: {
-    alias: {
-      '@': resolve(__dirname, 'src'),
-      buffer: 'buffer',
-    },
-  },
-  define: {
-    'global': 'globalThis',
-    'process.env': {},
-  },
+  resolve: sharedResolve,
+  define: sharedDefine,
   plugins: [
     copyManifestPlugin(),
+    buildContentPlugin(),
   ],
   optimizeDeps: {
     esbuildOptions: {